@@ -0,0 +1,428 @@
+import { isActive, isSettled } from './recognizer'
+import {
+  type Clock,
+  type GestuelleConfig,
+  type GestuelleEventMap,
+  type GestureFilterInput,
+  type PointerSample,
+  type Recognizer,
+  type RecognizerContext,
+  type RecognizerInput,
+  RecognizerState,
+} from './types'
+import { getGestureConfig } from './utils'
+
+/**
+ * The instance an arbiter settles the gestures of.
+ */
+export interface ArbiterHost {
+  /** The current configuration of the instance. */
+  readonly config: Readonly<GestuelleConfig>
+  /** The time source and timers of the instance. */
+  readonly clock: Clock
+  /** Dispatches a gesture event from the element, returns false if the gesture is refused. */
+  dispatch<K extends keyof GestuelleEventMap>(type: K, detail: GestuelleEventMap[K]['detail']): boolean
+  /** Called when a gesture takes over the pointers. */
+  onClaim(recognizer: Recognizer): void
+  /** Called when a gesture is declined, leaving the pointers to the browser. */
+  onDecline(recognizer: Recognizer): void
+}
+
+/**
+ * Feeds the pointer input to the recognizers of an instance and settles the conflicts between their gestures.
+ *
+ * A recognizer claims the pointers when it begins a gesture, or recognizes a discrete one, and the others are
+ * then stopped unless they can be recognized along it. The relationships between the gestures come from the
+ * recognizers themselves and from the `requireFailureOf`, `allowSimultaneous` and `priority` options.
+ */
+export class Arbiter {
+  private recognizers: Recognizer[] = []
+
+  private host: ArbiterHost
+
+  // Recognizers failed by the one that began, given another chance if it fails in turn
+  private failedBy: Map<Recognizer, Recognizer> = new Map()
+
+  // Events of the recognized gestures waiting for the failure of others
+  private held: Map<Recognizer, (() => boolean)[]> = new Map()
+
+  // Recognizers whose gesture was refused, silenced until the next gesture
+  private muted: Set<Recognizer> = new Set()
+
+  // Set while recognizers are canceled on behalf of another one, so they do not cancel others in turn
+  private arbitrating = false
+
+  constructor(host: ArbiterHost) {
+    this.host = host
+  }
+
+  /**
+   * Whether a gesture is in progress.
+   */
+  get active(): boolean {
+    return this.recognizers.some((recognizer) => isActive(recognizer.state))
+  }
+
+  /**
+   * The largest number of pointers a gesture needs.
+   */
+  get maxPointers(): number {
+    return Math.max(...this.recognizers.map((recognizer) => recognizer.pointers))
+  }
+
+  public isEnabled(gesture: string): boolean {
+    return getGestureConfig(this.host.config, gesture)?.enabled ?? true
+  }
+
+  public register(recognizer: Recognizer): void {
+    if (this.recognizers.some((registered) => registered.name === recognizer.name)) {
+      throw new Error(`A recognizer named "${recognizer.name}" is already registered`)
+    }
+
+    recognizer.attach(this.createContext(recognizer))
+    this.recognizers.push(recognizer)
+  }
+
+  /**
+   * Gets every recognizer ready for a new gesture, when the first pointer goes down.
+   */
+  public start(): void {
+    this.failedBy.clear()
+    this.muted.clear()
+    this.recognizers.forEach((recognizer) => {
+      recognizer.reset()
+    })
+  }
+
+  /**
+   * Feeds the input to the recognizers that can still recognize their gesture, by priority then in the order
+   * they were registered.
+   */
+  public recognize(input: RecognizerInput): void {
+    // The recognizers given another chance along the way get the input too
+    const fed = new Set<Recognizer>()
+    let recognizer = this.getNextRecognizer(fed)
+
+    while (recognizer) {
+      fed.add(recognizer)
+      recognizer.process(input)
+      recognizer = this.getNextRecognizer(fed)
+    }
+  }
+
+  /**
+   * Stops the gestures the pointer going down cannot make, given their pointer type, button and modifier key filters.
+   */
+  public filter(sample: PointerSample): void {
+    this.arbitrating = true
+
+    for (const recognizer of this.recognizers) {
+      if (!isSettled(recognizer.state) && !this.accepts(recognizer.name, sample)) {
+        this.stop(recognizer)
+      }
+    }
+
+    this.arbitrating = false
+    this.resolveHeld()
+  }
+
+  /**
+   * Whether the gesture can be made with the given input, given its pointer type, button and modifier key filters.
+   */
+  public accepts(gesture: string, input: GestureFilterInput): boolean {
+    const gestureConfig = getGestureConfig(this.host.config, gesture)
+    const pointerTypes = gestureConfig?.pointerTypes
+    const buttons = gestureConfig?.buttons
+    const modifierKeys = gestureConfig?.modifierKeys ?? []
+
+    return (
+      (pointerTypes?.includes(input.type) ?? true) &&
+      (buttons?.includes(input.button ?? 0) ?? true) &&
+      modifierKeys.every((key) => input[`${key}Key`] === true)
+    )
+  }
+
+  /**
+   * Cancels the ongoing gestures, nothing being recognized until all the pointers are released.
+   */
+  public cancel(): void {
+    this.arbitrating = true
+
+    for (const recognizer of this.recognizers) {
+      this.stop(recognizer)
+    }
+
+    this.arbitrating = false
+    this.resolveHeld()
+  }
+
+  /**
+   * Cancels the gestures that have just been disabled.
+   */
+  public cancelDisabled(): void {
+    for (const recognizer of this.recognizers) {
+      if (!recognizer.enabled) {
+        recognizer.cancel()
+      }
+    }
+
+    this.resolveHeld()
+  }
+
+  public destroy(): void {
+    this.held.clear()
+    this.muted.clear()
+    this.recognizers.forEach((recognizer) => {
+      recognizer.destroy?.()
+    })
+  }
+
+  private createContext(recognizer: Recognizer): RecognizerContext {
+    const host = this.host
+
+    return {
+      get config() {
+        return host.config
+      },
+      clock: host.clock,
+      isEnabled: (gesture) => this.isEnabled(gesture),
+      getState: (gesture) => this.getState(gesture),
+      emit: (type, detail) => this.onRecognizerEmit(recognizer, () => host.dispatch(type, detail)),
+      update: (updated, previousState) => this.onRecognizerUpdate(updated, previousState),
+    }
+  }
+
+  private getState(gesture: string): RecognizerState | undefined {
+    const recognizer = this.recognizers.find((registered) => registered.name === gesture)
+
+    if (!recognizer) {
+      return undefined
+    }
+
+    // A refused gesture may have been recognized, but none of its events are dispatched
+    return this.muted.has(recognizer) ? RecognizerState.CANCELED : recognizer.state
+  }
+
+  private getNextRecognizer(fed: Set<Recognizer>): Recognizer | undefined {
+    return this.getRecognizersByPriority().find(
+      (recognizer) => !fed.has(recognizer) && recognizer.enabled && !isSettled(recognizer.state),
+    )
+  }
+
+  private onRecognizerEmit(recognizer: Recognizer, dispatch: () => boolean): void {
+    if (this.muted.has(recognizer)) {
+      return
+    }
+
+    const events = this.held.get(recognizer)
+
+    if (events) {
+      events.push(dispatch)
+    } else if (!dispatch()) {
+      this.refuse(recognizer)
+    }
+  }
+
+  private onRecognizerUpdate(recognizer: Recognizer, previousState: RecognizerState): void {
+    if (this.arbitrating) {
+      return
+    }
+
+    const state = recognizer.state
+
+    if (
+      state === RecognizerState.BEGAN ||
+      (state === RecognizerState.ENDED && previousState === RecognizerState.POSSIBLE)
+    ) {
+      this.claim(recognizer)
+    } else if (state === RecognizerState.CANCELED) {
+      this.takeOver(recognizer, false)
+
+      if (previousState === RecognizerState.POSSIBLE) {
+        this.host.onDecline(recognizer)
+      }
+    } else if (state === RecognizerState.FAILED && isActive(previousState)) {
+      // The gesture gave up after it began, the ones it stopped get another chance
+      this.restoreFailedBy(recognizer)
+    }
+
+    if (isActive(previousState) && (state === RecognizerState.FAILED || state === RecognizerState.CANCELED)) {
+      // A held gesture stopped before being announced is never heard of
+      this.held.delete(recognizer)
+    }
+
+    this.resolveHeld()
+  }
+
+  /**
+   * Lets the recognizer take over the pointers, unless a gesture it must give way to is in progress
+   * or has yet to fail.
+   */
+  private claim(recognizer: Recognizer): void {
+    const priority = this.getPriority(recognizer)
+    const interrupted = this.recognizers.some(
+      (other) =>
+        other !== recognizer &&
+        isActive(other.state) &&
+        this.getPriority(other) > priority &&
+        !this.canRecognizeTogether(recognizer, other),
+    )
+    const required = this.getRequiredFailures(recognizer)
+
+    if (interrupted || required.some((other) => this.isRecognized(other))) {
+      this.discard(recognizer)
+    } else if (required.some((other) => other.state === RecognizerState.POSSIBLE)) {
+      // A gesture recognized again while held replaces the previous one
+      this.held.set(recognizer, [])
+    } else {
+      this.takeOver(recognizer, true)
+    }
+  }
+
+  /**
+   * Stops the gestures that cannot be recognized along the given one, except those with a higher priority.
+   */
+  private takeOver(recognizer: Recognizer, recognized: boolean): void {
+    const priority = this.getPriority(recognizer)
+
+    this.arbitrating = true
+
+    for (const other of this.recognizers) {
+      if (
+        other === recognizer ||
+        isSettled(other.state) ||
+        this.getPriority(other) > priority ||
+        this.canRecognizeTogether(recognizer, other)
+      ) {
+        continue
+      }
+
+      this.stop(other)
+
+      if (recognized && other.state === RecognizerState.FAILED) {
+        this.failedBy.set(other, recognizer)
+      }
+    }
+
+    this.arbitrating = false
+
+    if (recognized) {
+      this.host.onClaim(recognizer)
+    }
+  }
+
+  /**
+   * Dispatches or drops the held gestures once the ones they require the failure of are decided.
+   */
+  private resolveHeld(): void {
+    for (const [recognizer, events] of this.held) {
+      const required = this.getRequiredFailures(recognizer)
+
+      if (required.some((other) => this.isRecognized(other))) {
+        this.held.delete(recognizer)
+
+        if (isActive(recognizer.state)) {
+          this.discard(recognizer)
+        }
+      } else if (!required.some((other) => other.state === RecognizerState.POSSIBLE)) {
+        this.held.delete(recognizer)
+
+        if (!events.every((dispatch) => dispatch())) {
+          this.refuse(recognizer)
+          continue
+        }
+
+        // The gesture may have been held since a previous one
+        if (isActive(recognizer.state) || recognizer.state === RecognizerState.ENDED) {
+          this.takeOver(recognizer, true)
+        }
+      }
+    }
+  }
+
+  /**
+   * Cancels the recognizer, dropping the cancel event of a held gesture.
+   */
+  private stop(recognizer: Recognizer): void {
+    const wasActive = isActive(recognizer.state)
+
+    recognizer.cancel()
+
+    if (wasActive) {
+      this.held.delete(recognizer)
+    }
+  }
+
+  /**
+   * Cancels a recognized gesture without any of its events being dispatched.
+   */
+  private discard(recognizer: Recognizer): void {
+    this.muted.add(recognizer)
+    this.arbitrating = true
+    recognizer.cancel()
+    this.arbitrating = false
+  }
+
+  /**
+   * Cancels a gesture refused from its start event without any further event, giving another chance
+   * to the ones it stopped.
+   */
+  private refuse(recognizer: Recognizer): void {
+    if (!isActive(recognizer.state)) {
+      return
+    }
+
+    this.held.delete(recognizer)
+    this.discard(recognizer)
+    this.restoreFailedBy(recognizer)
+  }
+
+  /**
+   * Gets the recognizers failed by the given one ready to recognize their gesture again.
+   */
+  private restoreFailedBy(recognizer: Recognizer): void {
+    for (const [other, winner] of this.failedBy) {
+      if (winner === recognizer) {
+        this.failedBy.delete(other)
+        other.reset()
+      }
+    }
+  }
+
+  private isRecognized(recognizer: Recognizer): boolean {
+    return isActive(recognizer.state) || recognizer.state === RecognizerState.ENDED
+  }
+
+  private canRecognizeTogether(first: Recognizer, second: Recognizer): boolean {
+    const config = this.host.config
+
+    return (
+      (first.canRecognizeWith?.(second) ?? false) ||
+      (second.canRecognizeWith?.(first) ?? false) ||
+      (getGestureConfig(config, first.name)?.allowSimultaneous?.includes(second.name) ?? false) ||
+      (getGestureConfig(config, second.name)?.allowSimultaneous?.includes(first.name) ?? false)
+    )
+  }
+
+  /**
+   * Returns the enabled recognizers that must fail before the given one is recognized.
+   */
+  private getRequiredFailures(recognizer: Recognizer): Recognizer[] {
+    const names = getGestureConfig(this.host.config, recognizer.name)?.requireFailureOf ?? []
+
+    return this.recognizers.filter(
+      (other) =>
+        other !== recognizer &&
+        other.enabled &&
+        (names.includes(other.name) || (recognizer.requiresFailureOf?.(other) ?? false)),
+    )
+  }
+
+  private getPriority(recognizer: Recognizer): number {
+    return getGestureConfig(this.host.config, recognizer.name)?.priority ?? 0
+  }
+
+  private getRecognizersByPriority(): Recognizer[] {
+    return [...this.recognizers].sort((first, second) => this.getPriority(second) - this.getPriority(first))
+  }
+}
@@ -0,0 +1,144 @@
+import type { Clock, GestuelleEventMap } from './types'
+import { watchSignals } from './utils'
+
+type GestureEventDetailOf<K extends keyof GestuelleEventMap> = GestuelleEventMap[K]['detail']
+
+/**
+ * Resolves with the detail of the next gesture event of the given type dispatched from, or through, the element.
+ */
+export function waitForEvent<K extends keyof GestuelleEventMap>(
+  element: HTMLElement,
+  type: K,
+  clock: Clock,
+  signals: (AbortSignal | undefined)[],
+  timeout?: number,
+): Promise<GestureEventDetailOf<K>> {
+  return new Promise((resolve, reject) => {
+    let cancelTimeout: (() => void) | null = null
+    let unwatchSignals: (() => void) | null = null
+
+    const cleanup = () => {
+      element.removeEventListener(type, onEvent)
+      cancelTimeout?.()
+      unwatchSignals?.()
+    }
+
+    const onEvent = (event: Event) => {
+      cleanup()
+      resolve((event as GestuelleEventMap[K]).detail)
+    }
+
+    element.addEventListener(type, onEvent)
+
+    if (timeout !== undefined) {
+      cancelTimeout = clock.setTimeout(() => {
+        cleanup()
+        reject(new DOMException(`No ${type} event within ${timeout}ms`, 'TimeoutError'))
+      }, timeout)
+    }
+
+    unwatchSignals = watchSignals(signals, (reason) => {
+      cleanup()
+      reject(reason)
+    })
+  })
+}
+
+/**
+ * Iterates over the details of the gesture events of the given type dispatched from, or through, the element,
+ * until one of the end types is. Aborting a signal throws its reason from the iteration.
+ */
+export function iterateEvents<K extends keyof GestuelleEventMap>(
+  element: HTMLElement,
+  type: K,
+  endTypes: (keyof GestuelleEventMap)[],
+  signals: (AbortSignal | undefined)[],
+): AsyncIterableIterator<GestureEventDetailOf<K>> {
+  // Events not consumed yet, and the call of `next` waiting for one
+  const queue: GestureEventDetailOf<K>[] = []
+  let pending: {
+    resolve(result: IteratorResult<GestureEventDetailOf<K>>): void
+    reject(reason: unknown): void
+  } | null = null
+
+  let done = false
+  let failure: { reason: unknown } | null = null
+  let unwatchSignals: (() => void) | null = null
+
+  const onEvent = (event: Event) => {
+    const detail = (event as GestuelleEventMap[K]).detail
+
+    if (pending) {
+      pending.resolve({ value: detail, done: false })
+      pending = null
+    } else {
+      queue.push(detail)
+    }
+  }
+
+  const finish = (abortReason?: { reason: unknown }) => {
+    if (done) {
+      return
+    }
+
+    done = true
+    element.removeEventListener(type, onEvent)
+    endTypes.forEach((endType) => {
+      element.removeEventListener(endType, onEnd)
+    })
+    unwatchSignals?.()
+
+    if (!pending) {
+      failure = abortReason ?? null
+    } else if (abortReason) {
+      pending.reject(abortReason.reason)
+    } else {
+      pending.resolve({ value: undefined, done: true })
+    }
+
+    pending = null
+  }
+
+  const onEnd = () => finish()
+
+  element.addEventListener(type, onEvent)
+  endTypes.forEach((endType) => {
+    element.addEventListener(endType, onEnd)
+  })
+
+  unwatchSignals = watchSignals(signals, (reason) => finish({ reason: reason }))
+
+  return {
+    next() {
+      const detail = queue.shift()
+
+      if (detail !== undefined) {
+        return Promise.resolve({ value: detail, done: false })
+      }
+
+      if (failure) {
+        const reason = failure.reason
+        failure = null
+        return Promise.reject(reason)
+      }
+
+      if (done) {
+        return Promise.resolve({ value: undefined, done: true })
+      }
+
+      return new Promise((resolve, reject) => {
+        pending = { resolve, reject }
+      })
+    },
+    return() {
+      // Stopped early, e.g. by a `break` out of the loop
+      finish()
+      queue.length = 0
+      failure = null
+      return Promise.resolve({ value: undefined, done: true })
+    },
+    [Symbol.asyncIterator]() {
+      return this
+    },
+  }
+}
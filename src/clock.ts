@@ -0,0 +1,124 @@
+import type { Clock } from './types'
+
+/**
+ * A clock only moving forward when told to, running the timers that are due on the way.
+ */
+export interface VirtualClock extends Clock {
+  /** Moves the time forward by the given duration (in milliseconds). */
+  advance(duration: number): void
+}
+
+/**
+ * The clock of the environment. Frames fall back on timers where `requestAnimationFrame` is missing,
+ * like in Node or some workers.
+ */
+export const defaultClock: Clock = {
+  now: () => performance.now(),
+
+  setTimeout: (callback, delay) => {
+    const timeoutId = setTimeout(callback, delay)
+    return () => clearTimeout(timeoutId)
+  },
+
+  requestAnimationFrame: (callback) => {
+    if (typeof requestAnimationFrame !== 'function') {
+      const timeoutId = setTimeout(callback, 16)
+      return () => clearTimeout(timeoutId)
+    }
+
+    const frameId = requestAnimationFrame(() => callback())
+    return () => cancelAnimationFrame(frameId)
+  },
+}
+
+/**
+ * A clock keeping count of the timers and frames scheduled through it.
+ */
+export interface TrackedClock extends Clock {
+  /** The number of timers and frames scheduled, neither run nor canceled yet. */
+  readonly pending: number
+}
+
+/**
+ * Wraps the clock to keep count of the timers and frames scheduled through it, calling back after each one has run.
+ */
+export function trackTimers(clock: Clock, onRun: () => void): TrackedClock {
+  let pending = 0
+
+  const track = (schedule: (run: () => void) => () => void, callback: () => void): (() => void) => {
+    let settled = false
+
+    const settle = () => {
+      if (!settled) {
+        settled = true
+        pending -= 1
+      }
+    }
+
+    pending += 1
+
+    const cancel = schedule(() => {
+      settle()
+      callback()
+      onRun()
+    })
+
+    return () => {
+      settle()
+      cancel()
+    }
+  }
+
+  return {
+    now: () => clock.now(),
+    setTimeout: (callback, delay) => track((run) => clock.setTimeout(run, delay), callback),
+    requestAnimationFrame: (callback) => track((run) => clock.requestAnimationFrame(run), callback),
+    get pending() {
+      return pending
+    },
+  }
+}
+
+export function createVirtualClock(startTime = 0): VirtualClock {
+  let time = startTime
+  const timers = new Set<{ time: number; callback: () => void }>()
+
+  const setTimeout = (callback: () => void, delay: number) => {
+    const timer = { time: time + delay, callback: callback }
+    timers.add(timer)
+    return () => {
+      timers.delete(timer)
+    }
+  }
+
+  return {
+    now: () => time,
+    setTimeout: setTimeout,
+    requestAnimationFrame: (callback) => setTimeout(callback, 16),
+
+    advance: (duration) => {
+      const endTime = time + duration
+
+      // The timers scheduled by the ones being run are run too if they are due
+      for (;;) {
+        let next: { time: number; callback: () => void } | null = null
+
+        for (const timer of timers) {
+          if (timer.time <= endTime && (!next || timer.time < next.time)) {
+            next = timer
+          }
+        }
+
+        if (!next) {
+          break
+        }
+
+        timers.delete(next)
+        time = next.time
+        next.callback()
+      }
+
+      time = endTime
+    },
+  }
+}
@@ -0,0 +1,128 @@
+import type { CoordinateSpace, GestureEventDetail } from './types'
+import { invertMatrix, type Matrix, multiplyMatrices, parseTransform, transformPoint } from './utils'
+
+// Positions of the details, moved into the coordinate space
+const POINTS = [
+  ['x', 'y'],
+  ['centerX', 'centerY'],
+] as const
+
+// Offsets, deltas and velocities of the details, only turned and scaled into the coordinate space
+const VECTORS = [
+  ['offsetX', 'offsetY'],
+  ['deltaX', 'deltaY'],
+  ['velocityX', 'velocityY'],
+] as const
+
+// Lengths of the details, only scaled into the coordinate space
+const LENGTHS = ['distance'] as const
+
+/**
+ * Returns the transform from the coordinates of the element, before its own transform, to the viewport,
+ * through the transforms of its ancestors.
+ */
+export function getElementMatrix(element: HTMLElement): Matrix {
+  const style = getComputedStyle(element)
+  const width = element.offsetWidth
+  const height = element.offsetHeight
+
+  // The origin is computed in pixels, from the center of the element by default
+  const [originX = Number.NaN, originY = Number.NaN] = style.transformOrigin.split(' ').map(Number.parseFloat)
+  const x = Number.isNaN(originX) ? width / 2 : originX
+  const y = Number.isNaN(originY) ? height / 2 : originY
+
+  let matrix = multiplyMatrices(
+    [1, 0, 0, 1, x, y],
+    multiplyMatrices(parseTransform(style.transform), [1, 0, 0, 1, -x, -y]),
+  )
+
+  // The ancestors turn and scale the element along with them, their translations only moving it
+  for (let ancestor = element.parentElement; ancestor; ancestor = ancestor.parentElement) {
+    const [a, b, c, d] = parseTransform(getComputedStyle(ancestor).transform)
+    matrix = multiplyMatrices([a, b, c, d, 0, 0], matrix)
+  }
+
+  // The bounding rectangle of the element encloses its transformed corners, which gives its position
+  const corners = [
+    transformPoint(matrix, 0, 0),
+    transformPoint(matrix, width, 0),
+    transformPoint(matrix, 0, height),
+    transformPoint(matrix, width, height),
+  ]
+
+  const rect = element.getBoundingClientRect()
+  const left = Math.min(...corners.map(([cornerX]) => cornerX))
+  const top = Math.min(...corners.map(([, cornerY]) => cornerY))
+
+  return multiplyMatrices([1, 0, 0, 1, rect.left - left, rect.top - top], matrix)
+}
+
+/**
+ * Adds the coordinates of the pointer relative to the element to the detail, and moves the coordinates
+ * reported relative to the viewport into the given space. The matrix of the element can be passed along
+ * when it is already known, e.g. for the whole gesture.
+ */
+export function toCoordinateSpace(
+  detail: GestureEventDetail,
+  element: HTMLElement,
+  space: CoordinateSpace,
+  matrix: Readonly<Matrix> = getElementMatrix(element),
+): GestureEventDetail {
+  // An element flattened by its transform (e.g. `scale(0)`) only keeps its position
+  const inverse = invertMatrix(matrix) ?? [1, 0, 0, 1, -matrix[4], -matrix[5]]
+  const [localX, localY] = transformPoint(inverse, detail.x, detail.y)
+
+  const result: GestureEventDetail & Record<string, unknown> = { ...detail, localX: localX, localY: localY }
+
+  if (space === 'viewport') {
+    return result
+  }
+
+  const view = element.ownerDocument.defaultView
+
+  const convert = (pairs: typeof POINTS | typeof VECTORS, vector: boolean): void => {
+    for (const [keyX, keyY] of pairs) {
+      const valueX = result[keyX]
+      const valueY = result[keyY]
+
+      if (typeof valueX !== 'number' || typeof valueY !== 'number') {
+        continue
+      }
+
+      if (space === 'element') {
+        ;[result[keyX], result[keyY]] = transformPoint(inverse, valueX, valueY, vector)
+      } else if (space === 'page' && !vector) {
+        result[keyX] = valueX + (view?.scrollX ?? 0)
+        result[keyY] = valueY + (view?.scrollY ?? 0)
+      }
+    }
+  }
+
+  convert(POINTS, false)
+  convert(VECTORS, true)
+
+  if (space === 'element') {
+    // The lengths are scaled by the average scale of the element, exact unless it is skewed or scaled unevenly
+    const [a, b, c, d] = inverse
+    const scale = Math.sqrt(Math.abs(a * d - b * c))
+
+    for (const key of LENGTHS) {
+      const value = result[key]
+
+      if (typeof value === 'number') {
+        result[key] = value * scale
+      }
+    }
+
+    // The speed follows the velocity it is the magnitude of
+    if (
+      typeof result.velocity === 'number' &&
+      typeof result.velocityX === 'number' &&
+      typeof result.velocityY === 'number'
+    ) {
+      result.velocity = Math.sqrt(result.velocityX ** 2 + result.velocityY ** 2)
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,459 @@
+import { Arbiter } from './arbiter'
+import { defaultClock } from './clock'
+import { PanRecognizer } from './recognizers/pan'
+import { PinchRecognizer } from './recognizers/pinch'
+import { PressRecognizer } from './recognizers/press'
+import { RotateRecognizer } from './recognizers/rotate'
+import { SwipeRecognizer } from './recognizers/swipe'
+import { MultiTapRecognizer, TapRecognizer } from './recognizers/tap'
+import type {
+  ActivePointer,
+  Clock,
+  GestuelleConfig,
+  GestuelleCoreOptions,
+  GestuelleObserver,
+  GestureEventDetail,
+  GestureFilterInput,
+  GestureName,
+  PointerGroup,
+  PointerSample,
+  Recognizer,
+  RecognizerInput,
+} from './types'
+import { mergeConfig, type PositionSample, RingBuffer } from './utils'
+
+type InputState = Required<
+  Pick<GestureEventDetail, 'button' | 'buttons' | 'shiftKey' | 'ctrlKey' | 'altKey' | 'metaKey'>
+>
+
+/**
+ * Recognizes the gestures from normalized pointer samples, without depending on the DOM.
+ * The time comes from the clock, which can be replaced to run anywhere.
+ */
+class GestuelleCore {
+  readonly clock: Clock
+
+  private currentConfig: GestuelleConfig
+  private options: GestuelleCoreOptions
+
+  private arbiter: Arbiter
+
+  private observers: Set<GestuelleObserver> = new Set()
+
+  private activePointers: Map<number, ActivePointer> = new Map()
+
+  // Movement of the pointers as a whole, used by tap, pan and swipe
+  private group: PointerGroup | null = null
+
+  // Buttons and modifier keys of the latest input, reported along with the gesture events
+  private inputState: InputState = {
+    button: 0,
+    buttons: 0,
+    shiftKey: false,
+    ctrlKey: false,
+    altKey: false,
+    metaKey: false,
+  }
+
+  constructor(options: GestuelleCoreOptions) {
+    this.options = options
+    this.clock = options.clock ?? defaultClock
+    this.currentConfig = options.config ?? {}
+    this.arbiter = this.createArbiter()
+
+    // The two-pointer gestures come first, so they are checked before the movement of the pointers as a whole,
+    // and the swipe is decided before the end of the pan it replaces
+    this.register(new PinchRecognizer())
+    this.register(new RotateRecognizer())
+    this.register(new TapRecognizer())
+    this.register(new MultiTapRecognizer())
+    this.register(new PressRecognizer())
+    this.register(new SwipeRecognizer())
+    this.register(new PanRecognizer())
+  }
+
+  /**
+   * The current configuration, use `setConfig` to change it.
+   */
+  get config(): Readonly<GestuelleConfig> {
+    return this.currentConfig
+  }
+
+  /**
+   * Whether a gesture is in progress.
+   */
+  get active(): boolean {
+    return this.arbiter.active
+  }
+
+  /**
+   * The number of pointers currently tracked.
+   */
+  get pointerCount(): number {
+    return this.activePointers.size
+  }
+
+  /**
+   * Merges the given options into the configuration of each gesture. Changes apply right away,
+   * and disabling a gesture in progress cancels it along with the gestures it conflicts with.
+   */
+  public setConfig(config: GestuelleConfig): void {
+    this.currentConfig = mergeConfig(this.currentConfig, config)
+    this.arbiter.cancelDisabled()
+  }
+
+  public enable(gesture: GestureName): void {
+    this.setConfig({ [gesture]: { enabled: true } })
+  }
+
+  public disable(gesture: GestureName): void {
+    this.setConfig({ [gesture]: { enabled: false } })
+  }
+
+  public isEnabled(gesture: GestureName): boolean {
+    return this.arbiter.isEnabled(gesture)
+  }
+
+  /**
+   * Whether the gesture can be made with the given input, given its pointer type, button and modifier key filters.
+   */
+  public accepts(gesture: GestureName, input: GestureFilterInput): boolean {
+    return this.arbiter.accepts(gesture, input)
+  }
+
+  /**
+   * Adds a recognizer, fed with the pointer input after the ones registered before it with the same priority.
+   */
+  public register(recognizer: Recognizer): void {
+    this.arbiter.register(recognizer)
+  }
+
+  /**
+   * Whether the pointer is tracked, pointers going down beyond the ones the gestures need may be ignored.
+   */
+  public hasPointer(pointerId: number): boolean {
+    return this.activePointers.has(pointerId)
+  }
+
+  /**
+   * Calls the observer with the samples fed to the recognizers and the events they emit, until unsubscribed.
+   */
+  public observe(observer: GestuelleObserver): () => void {
+    this.observers.add(observer)
+
+    return () => {
+      this.observers.delete(observer)
+    }
+  }
+
+  /**
+   * Feeds a pointer sample to the recognizers.
+   */
+  public process(sample: PointerSample): void {
+    this.observers.forEach((observer) => {
+      observer.onSample?.(sample)
+    })
+
+    this.updateInputState(sample)
+
+    switch (sample.phase) {
+      case 'down':
+        this.onPointerDown(sample)
+        break
+
+      case 'move':
+        this.onPointerMove(sample)
+        break
+
+      case 'up':
+        this.onPointerUp(sample)
+        break
+
+      case 'cancel':
+        this.onPointerCancel(sample)
+        break
+    }
+  }
+
+  /**
+   * Cancels the ongoing gestures and stops tracking the pointers, nothing being recognized
+   * until they go down again.
+   */
+  public cancel(): void {
+    this.arbiter.cancel()
+    this.resetGestureState()
+  }
+
+  public destroy(): void {
+    this.arbiter.destroy()
+    this.observers.clear()
+    this.resetGestureState()
+  }
+
+  private createArbiter(): Arbiter {
+    const getConfig = () => this.config
+
+    return new Arbiter({
+      get config() {
+        return getConfig()
+      },
+      clock: this.clock,
+      dispatch: (type, detail) => {
+        const time = this.clock.now()
+        const eventDetail = { ...detail, ...this.inputState }
+
+        this.observers.forEach((observer) => {
+          observer.onEvent?.(type, eventDetail, time)
+        })
+
+        return this.options.onEvent(type, eventDetail) !== false
+      },
+      onClaim: (recognizer) => this.options.onClaim?.(recognizer),
+      onDecline: (recognizer) => this.options.onDecline?.(recognizer),
+    })
+  }
+
+  private onPointerDown(sample: PointerSample): void {
+    if (this.activePointers.has(sample.id)) {
+      return
+    }
+
+    if (this.activePointers.size === 0) {
+      // First pointer down: every gesture is possible again
+      this.arbiter.start()
+    } else if (this.activePointers.size >= this.arbiter.maxPointers) {
+      this.onExtraPointerDown(sample)
+      return
+    }
+
+    const pointer = this.trackPointer(sample)
+    this.arbiter.filter(sample)
+    this.startGroup(sample.time)
+    this.recognize('down', pointer, sample.time)
+  }
+
+  /**
+   * Starts tracking the pointer of the given sample.
+   */
+  private trackPointer(sample: PointerSample): ActivePointer {
+    const samples = new RingBuffer<PositionSample>(32)
+    samples.push({ x: sample.x, y: sample.y, time: sample.time })
+
+    const pointer: ActivePointer = {
+      id: sample.id,
+      startX: sample.x,
+      startY: sample.y,
+      currentX: sample.x,
+      currentY: sample.y,
+      pointerType: sample.type,
+      downTime: sample.time,
+      samples: samples,
+    }
+
+    this.activePointers.set(sample.id, pointer)
+
+    return pointer
+  }
+
+  /**
+   * Applies the configured policy when a pointer goes down while the maximum
+   * number of pointers any gesture needs are already active.
+   */
+  private onExtraPointerDown(sample: PointerSample): void {
+    const pinchConfig = this.config.pinch
+    const extraPointers = pinchConfig?.extraPointers ?? 'ignore'
+
+    switch (extraPointers) {
+      case 'ignore':
+        break
+
+      case 'cancel':
+        this.arbiter.cancel()
+        this.trackPointer(sample)
+        break
+
+      case 'rebase': {
+        // Drop the oldest pointer so the gesture goes on with the newest ones
+        const [oldestPointer] = this.activePointers.values()
+        this.activePointers.delete(oldestPointer.id)
+
+        const pointer = this.trackPointer(sample)
+        this.arbiter.filter(sample)
+        this.rebaseGroup()
+        this.recognize('down', pointer, sample.time)
+        break
+      }
+    }
+  }
+
+  private onPointerMove(sample: PointerSample): void {
+    const pointer = this.activePointers.get(sample.id)
+
+    if (!pointer) {
+      return
+    }
+
+    // Update the values of the moved pointer
+    pointer.currentX = sample.x
+    pointer.currentY = sample.y
+    pointer.samples.push({ x: sample.x, y: sample.y, time: sample.time })
+
+    this.updateGroup()
+    this.recognize('move', pointer, sample.time)
+  }
+
+  private onPointerUp(sample: PointerSample): void {
+    const pointer = this.activePointers.get(sample.id)
+
+    if (!pointer) {
+      return
+    }
+
+    this.activePointers.delete(sample.id)
+
+    if (this.group) {
+      this.group.deltaX = 0
+      this.group.deltaY = 0
+    }
+
+    this.recognize('up', pointer, sample.time)
+
+    if (this.activePointers.size === 0) {
+      this.resetGestureState()
+    }
+  }
+
+  private onPointerCancel(sample: PointerSample): void {
+    if (!this.activePointers.has(sample.id)) {
+      return
+    }
+
+    this.cancel()
+  }
+
+  /**
+   * Keeps the buttons and modifier keys of the sample, the button being the one the gesture started with.
+   */
+  private updateInputState(sample: PointerSample): void {
+    if (sample.phase === 'down' && this.activePointers.size === 0) {
+      this.inputState.button = sample.button ?? 0
+    }
+
+    this.inputState.buttons = sample.buttons ?? 0
+    this.inputState.shiftKey = sample.shiftKey ?? false
+    this.inputState.ctrlKey = sample.ctrlKey ?? false
+    this.inputState.altKey = sample.altKey ?? false
+    this.inputState.metaKey = sample.metaKey ?? false
+  }
+
+  /**
+   * Feeds the input of the pointer to the recognizers.
+   */
+  private recognize(phase: RecognizerInput['phase'], pointer: ActivePointer, time: number): void {
+    const group = this.group
+
+    if (!group) {
+      return
+    }
+
+    this.arbiter.recognize({
+      phase: phase,
+      pointer: pointer,
+      pointers: [...this.activePointers.values()],
+      group: group,
+      time: time,
+    })
+  }
+
+  /**
+   * Starts a new pointer group from the active pointers, keeping the time of the first pointerdown.
+   */
+  private startGroup(time: number): void {
+    const [centroidX, centroidY] = this.getCentroid()
+    const [firstPointer] = this.activePointers.values()
+
+    this.group = {
+      size: this.activePointers.size,
+      downTime: this.group?.downTime ?? time,
+      startTime: time,
+      startX: centroidX,
+      startY: centroidY,
+      currentX: centroidX,
+      currentY: centroidY,
+      deltaX: 0,
+      deltaY: 0,
+      pointerType: firstPointer.pointerType,
+    }
+  }
+
+  /**
+   * Moves the group along with its pointers, until one of them is released.
+   */
+  private updateGroup(): void {
+    const group = this.group
+
+    if (!group) {
+      return
+    }
+
+    if (this.activePointers.size !== group.size) {
+      group.deltaX = 0
+      group.deltaY = 0
+      return
+    }
+
+    const [centroidX, centroidY] = this.getCentroid()
+
+    group.deltaX = centroidX - group.currentX
+    group.deltaY = centroidY - group.currentY
+    group.currentX = centroidX
+    group.currentY = centroidY
+  }
+
+  /**
+   * Moves the group onto the active pointers without changing its offsets.
+   */
+  private rebaseGroup(): void {
+    const group = this.group
+
+    if (!group) {
+      return
+    }
+
+    const [centroidX, centroidY] = this.getCentroid()
+
+    group.startX += centroidX - group.currentX
+    group.startY += centroidY - group.currentY
+    group.currentX = centroidX
+    group.currentY = centroidY
+  }
+
+  /**
+   * Returns the centroid of the active pointers.
+   */
+  private getCentroid(): [number, number] {
+    let sumX = 0
+    let sumY = 0
+
+    for (const pointer of this.activePointers.values()) {
+      sumX += pointer.currentX
+      sumY += pointer.currentY
+    }
+
+    return [sumX / this.activePointers.size, sumY / this.activePointers.size]
+  }
+
+  /**
+   * Resets the internal gesture state and clears any active pointers.
+   */
+  private resetGestureState(): void {
+    this.group = null
+    this.activePointers.clear()
+  }
+}
+
+export function createGestuelleCore(options: GestuelleCoreOptions): GestuelleCore {
+  return new GestuelleCore(options)
+}
+
+export type { GestuelleCore }
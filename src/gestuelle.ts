@@ -1,46 +1,480 @@
+import { iterateEvents, waitForEvent } from './async'
+import { createVirtualClock, defaultClock, type TrackedClock, trackTimers, type VirtualClock } from './clock'
+import { getElementMatrix, toCoordinateSpace } from './coordinates'
+import { createGestuelleCore, type GestuelleCore } from './core'
+import type { InputAdapterHost } from './input'
+import { KeyboardAdapter } from './keyboard'
+import { BaseRecognizer } from './recognizer'
+import { recordGestures, replayGestures } from './recording'
+import { createTransformController, type TransformController } from './transform'
 import {
+  type Clock,
   type GestuelleConfig,
   type GestuelleEventMap,
-  GestureState,
-  type PointerType,
-  type SwipeDirection,
+  type GestuelleObserver,
+  type GestuelleOptions,
+  type GestureName,
+  type PanEventDetail,
+  type PinchEventDetail,
+  type PointerSample,
+  type Recognizer,
+  RecognizerState,
+  type RotateEventDetail,
+  type TransformChangeEventDetail,
+  type WaitOptions,
 } from './types'
-import { rad2deg } from './utils'
-
-interface ActivePointer {
-  /** The unique ID of the pointer. */
-  id: number
-  /** Initial X coordinate when pointerdown occurred. */
-  startX: number
-  /** Initial Y coordinate when pointerdown occurred. */
-  startY: number
-  /** Current X coordinate. */
-  currentX: number
-  /** Current Y coordinate. */
-  currentY: number
-  /** Type of pointer (mouse, touch, pen). */
-  pointerType: PointerType
-  /** Timestamp of pointerdown for duration calculations. */
-  downTime: number
+import { type Matrix, watchSignals } from './utils'
+import { WheelAdapter } from './wheel'
+
+// Instances tracking each pointer, from the innermost element outwards
+const pointerChains: Map<number, Gestuelle[]> = new Map()
+
+/**
+ * An element the gestures are recognized on, the element of the instance or a matching descendant.
+ */
+interface GestureTarget {
+  readonly element: HTMLElement
+  /** Transform of the element to the viewport, read once per gesture as it forces a layout. */
+  matrix: Matrix | null
+}
+
+/**
+ * A target recognizing the gestures of its pointers.
+ */
+interface PointerTarget extends GestureTarget {
+  readonly core: GestuelleCore
+  /** The timers of the core of a descendant, null for the element of the instance, which is never dropped. */
+  readonly timers: TrackedClock | null
 }
 
 /**
- * The core handler class for Gestuelle. Manages event listeners and gesture recognition
- * for a single DOM element.
+ * A pointer tracked by the core of a target.
+ */
+interface TrackedPointer {
+  target: PointerTarget
+  /** The element capturing the pointer, null if an instance nested in this one does. */
+  capture: HTMLElement | null
+}
+
+/**
+ * The DOM adapter of Gestuelle. Listens to the pointer events of a single DOM element,
+ * feeds them to the recognition core and dispatches the gesture events from the element.
  */
 class Gestuelle {
   readonly element: HTMLElement
-  readonly config: GestuelleConfig
 
-  private activePointers: Map<number, ActivePointer> = new Map()
-  private state: GestureState = GestureState.IDLE
+  // Recognizes the gestures of the element itself, and holds the configuration of the instance
+  private core: GestuelleCore
+
+  private elementTarget: PointerTarget
+
+  // Targets of the matching descendants in delegated mode, created on the first pointer down on each of them
+  // and dropped once their pointers are released and their gestures over
+  private descendantTargets: Map<HTMLElement, PointerTarget> = new Map()
+
+  // Creates the custom recognizers of each descendant in delegated mode
+  private recognizerFactories: (() => Recognizer)[] = []
+
+  private observers: Set<GestuelleObserver> = new Set()
 
-  private pressTimeoutId: number | null = null
+  private wheel: WheelAdapter
 
-  constructor(element: HTMLElement, config: GestuelleConfig) {
+  private keyboard: KeyboardAdapter
+
+  private trackedPointers: Map<number, TrackedPointer> = new Map()
+
+  // Target of the gestures made with the wheel or the keyboard
+  private inputTarget: GestureTarget
+
+  // Inline `touch-action` of the element before it was managed, null while it is not
+  private originalTouchAction: string | null = null
+
+  // Aborted on destroy, to stop the pending waits and iterations and remove the listeners added with `on`
+  private lifetime: AbortController = new AbortController()
+
+  // Stops destroying the instance when the signal of its configuration is aborted
+  private unwatchSignal: (() => void) | null = null
+
+  constructor(element: HTMLElement, config: GestuelleConfig, options: GestuelleOptions) {
     this.element = element
-    this.config = config
+    this.inputTarget = { element: element, matrix: null }
+
+    const elementTarget: PointerTarget = {
+      element: element,
+      matrix: null,
+      core: this.createCore(config, options.clock, () => elementTarget),
+      timers: null,
+    }
+
+    this.elementTarget = elementTarget
+    this.core = elementTarget.core
+
+    this.wheel = new WheelAdapter(this.getInputAdapterHost())
+    this.keyboard = new KeyboardAdapter(this.getInputAdapterHost())
+
+    this.applyTouchAction()
     this.addEventListeners()
+
+    this.watchSignal(config.signal)
+  }
+
+  /**
+   * The current configuration, use `setConfig` to change it.
+   */
+  get config(): Readonly<GestuelleConfig> {
+    return this.core.config
+  }
+
+  /**
+   * The clock timing the gestures.
+   */
+  get clock(): Clock {
+    return this.core.clock
+  }
+
+  /**
+   * Merges the given options into the configuration of each gesture. Changes apply right away,
+   * and disabling a gesture in progress cancels it along with the gestures it conflicts with.
+   */
+  public setConfig(config: GestuelleConfig): void {
+    this.core.setConfig(config)
+    this.descendantTargets.forEach((target) => {
+      target.core.setConfig(config)
+    })
+    this.wheel.update()
+    this.keyboard.update()
+    this.applyTouchAction()
+
+    if (config.signal) {
+      this.watchSignal(config.signal)
+    }
+  }
+
+  public enable(gesture: GestureName): void {
+    this.setConfig({ [gesture]: { enabled: true } })
+  }
+
+  public disable(gesture: GestureName): void {
+    this.setConfig({ [gesture]: { enabled: false } })
+  }
+
+  public isEnabled(gesture: GestureName): boolean {
+    return this.core.isEnabled(gesture)
+  }
+
+  /**
+   * Adds a recognizer, fed with the pointer input after the ones registered before it with the same priority.
+   * Each matching descendant having its own recognizers in delegated mode, it is given a function creating them.
+   */
+  public register(recognizer: Recognizer | (() => Recognizer)): void {
+    if (typeof recognizer !== 'function') {
+      if (this.config.delegate !== undefined) {
+        throw new Error('A delegated instance registers a function creating the recognizer of each descendant')
+      }
+
+      this.core.register(recognizer)
+      return
+    }
+
+    this.core.register(recognizer())
+    this.recognizerFactories.push(recognizer)
+    this.descendantTargets.forEach((target) => {
+      target.core.register(recognizer())
+    })
+  }
+
+  /**
+   * Cancels the ongoing gestures, dispatching their cancel events. The pointers still down are
+   * released and ignored until they go down again.
+   */
+  public cancel(): void {
+    this.core.cancel()
+    this.descendantTargets.forEach((target) => {
+      target.core.cancel()
+    })
+    this.wheel.cancel()
+    this.keyboard.cancel()
+    this.releasePointers()
+
+    // The descendants have nothing left to recognize
+    this.descendantTargets.forEach((target) => {
+      this.dropIdleTarget(target)
+    })
+  }
+
+  /**
+   * Calls the observer with the samples fed to the recognizers and the events they emit, until unsubscribed.
+   */
+  public observe(observer: GestuelleObserver): () => void {
+    this.observers.add(observer)
+
+    return () => {
+      this.observers.delete(observer)
+    }
+  }
+
+  /**
+   * Feeds a pointer sample to the recognizers as if it came from the element, e.g. to replay a recording.
+   * The gesture events are dispatched from the element, in delegated mode too.
+   */
+  public process(sample: PointerSample): void {
+    this.core.process(sample)
+  }
+
+  /**
+   * Listens to the gesture events of the given type until unsubscribed, or until the instance is destroyed.
+   */
+  public on<K extends keyof GestuelleEventMap>(
+    type: K,
+    handler: (event: GestuelleEventMap[K]) => void,
+    options: AddEventListenerOptions = {},
+  ): () => void {
+    const listener = handler as EventListener
+    let unwatchSignal: (() => void) | null = null
+
+    const unsubscribe = () => {
+      this.element.removeEventListener(type, listener, options)
+      unwatchSignal?.()
+    }
+
+    this.element.addEventListener(type, listener, { ...options, signal: this.lifetime.signal })
+    unwatchSignal = watchSignals([options.signal], unsubscribe)
+
+    return unsubscribe
+  }
+
+  /**
+   * Resolves with the detail of the next event of the given type.
+   */
+  public once<K extends keyof GestuelleEventMap>(
+    type: K,
+    options: Pick<WaitOptions, 'signal'> = {},
+  ): Promise<GestuelleEventMap[K]['detail']> {
+    return waitForEvent(this.element, type, this.core.clock, [options.signal, this.lifetime.signal])
+  }
+
+  /**
+   * Resolves with the detail of the next event of the given type, rejecting with a `TimeoutError`
+   * if none is dispatched in time.
+   */
+  public waitFor<K extends keyof GestuelleEventMap>(
+    type: K,
+    options: WaitOptions = {},
+  ): Promise<GestuelleEventMap[K]['detail']> {
+    return waitForEvent(this.element, type, this.core.clock, [options.signal, this.lifetime.signal], options.timeout)
+  }
+
+  /**
+   * Iterates over the moves of the current pan, or of the next one, until it ends, with a swipe or not, or is canceled.
+   */
+  public pan(options: Pick<WaitOptions, 'signal'> = {}): AsyncIterableIterator<PanEventDetail> {
+    return iterateEvents(
+      this.element,
+      'panmove',
+      ['panend', 'swipe', 'pancancel'],
+      [options.signal, this.lifetime.signal],
+    )
+  }
+
+  /**
+   * Iterates over the moves of the current pinch, or of the next one, until it ends or is canceled.
+   */
+  public pinch(options: Pick<WaitOptions, 'signal'> = {}): AsyncIterableIterator<PinchEventDetail> {
+    return iterateEvents(this.element, 'pinchmove', ['pinchend', 'pinchcancel'], [options.signal, this.lifetime.signal])
+  }
+
+  /**
+   * Iterates over the moves of the current rotation, or of the next one, until it ends or is canceled.
+   */
+  public rotate(options: Pick<WaitOptions, 'signal'> = {}): AsyncIterableIterator<RotateEventDetail> {
+    return iterateEvents(
+      this.element,
+      'rotatemove',
+      ['rotateend', 'rotatecancel'],
+      [options.signal, this.lifetime.signal],
+    )
+  }
+
+  /**
+   * Returns the instance as seen by the adapters of the input other than the pointers.
+   */
+  private getInputAdapterHost(): InputAdapterHost {
+    const instance = this
+
+    return {
+      element: this.element,
+      get target() {
+        return instance.inputTarget.element
+      },
+      get config() {
+        return instance.config
+      },
+      clock: this.core.clock,
+      get pointerCount() {
+        return instance.getPointerCount()
+      },
+      isEnabled: (gesture) => this.isEnabled(gesture),
+      accepts: (gesture, input) => this.core.accepts(gesture, input),
+      acquireTarget: (event) => this.acquireInputTarget(event),
+      dispatch: (type, detail) => this.dispatchGestureEvent(this.inputTarget, type, detail),
+    }
+  }
+
+  /**
+   * Creates a core feeding the observers of the instance and dispatching its gesture events from the target.
+   */
+  private createCore(config: GestuelleConfig, clock: Clock | undefined, getTarget: () => PointerTarget): GestuelleCore {
+    const core = createGestuelleCore({
+      config: config,
+      clock: clock,
+      onEvent: (type, detail) => this.dispatchGestureEvent(getTarget(), type, detail),
+      // A gesture recognized at once, e.g. on release, leaves the ones the ancestors have begun alone
+      onClaim: (recognizer) => this.cancelAncestors(getTarget(), recognizer.state === RecognizerState.ENDED),
+      onDecline: () => {
+        if (!this.config.yieldToParent) {
+          this.cancelAncestors(getTarget())
+        }
+      },
+    })
+
+    core.observe({
+      onSample: (sample) => {
+        this.observers.forEach((observer) => {
+          observer.onSample?.(sample)
+        })
+      },
+      onEvent: (type, detail, time) => {
+        this.observers.forEach((observer) => {
+          observer.onEvent?.(type, detail, time)
+        })
+      },
+    })
+
+    return core
+  }
+
+  /**
+   * Returns the target of the element, creating the one of a matching descendant on its first pointer down.
+   */
+  private getTarget(element: HTMLElement): PointerTarget {
+    if (element === this.element) {
+      return this.elementTarget
+    }
+
+    const existingTarget = this.descendantTargets.get(element)
+
+    if (existingTarget) {
+      return existingTarget
+    }
+
+    // The timers of the descendant, like the ones of its inertia or tap sequence, keep it until they are over
+    const timers = trackTimers(this.core.clock, () => this.dropIdleTarget(target))
+
+    const target: PointerTarget = {
+      element: element,
+      matrix: null,
+      core: this.createCore(this.core.config, timers, () => target),
+      timers: timers,
+    }
+
+    this.recognizerFactories.forEach((createRecognizer) => {
+      target.core.register(createRecognizer())
+    })
+
+    this.descendantTargets.set(element, target)
+
+    return target
+  }
+
+  /**
+   * Drops the target of a descendant once its pointers are released and its gestures over.
+   */
+  private dropIdleTarget(target: PointerTarget): void {
+    if (
+      this.descendantTargets.get(target.element) !== target ||
+      target.core.pointerCount > 0 ||
+      target.core.active ||
+      (target.timers?.pending ?? 0) > 0
+    ) {
+      return
+    }
+
+    for (const trackedPointer of this.trackedPointers.values()) {
+      if (trackedPointer.target === target) {
+        return
+      }
+    }
+
+    this.descendantTargets.delete(target.element)
+    target.core.destroy()
+  }
+
+  /**
+   * Returns the number of pointers down on the element and its matching descendants.
+   */
+  private getPointerCount(): number {
+    let pointerCount = this.core.pointerCount
+
+    for (const target of this.descendantTargets.values()) {
+      pointerCount += target.core.pointerCount
+    }
+
+    return pointerCount
+  }
+
+  /**
+   * Sets the `touch-action` of the element so the browser only handles
+   * the movements that no enabled gesture is interested in.
+   */
+  private applyTouchAction(): void {
+    const touchAction = this.config.touchAction ?? true
+
+    if (touchAction === false) {
+      this.restoreTouchAction()
+      return
+    }
+
+    if (this.originalTouchAction === null) {
+      this.originalTouchAction = this.element.style.touchAction
+    }
+
+    this.element.style.touchAction = typeof touchAction === 'string' ? touchAction : this.getTouchAction()
+  }
+
+  /**
+   * Computes the `touch-action` matching the enabled gestures.
+   */
+  private getTouchAction(): string {
+    const panPointers = this.config.pan?.pointers ?? 1
+    const swipePointers = this.config.swipe?.pointers ?? 1
+    const singlePan = this.isEnabled('pan') && panPointers === 1
+    const singleSwipe = this.isEnabled('swipe') && swipePointers === 1
+    const panDirection = this.config.pan?.direction ?? 'all'
+
+    let scrollX = true
+    let scrollY = true
+
+    if (singlePan) {
+      // The swipe follows the pan direction when both use a single pointer
+      scrollX = panDirection === 'vertical'
+      scrollY = panDirection === 'horizontal'
+    } else if (singleSwipe) {
+      scrollX = false
+      scrollY = false
+    }
+
+    const zoom =
+      !this.isEnabled('pinch') &&
+      !this.isEnabled('rotate') &&
+      !(this.isEnabled('pan') && panPointers === 2) &&
+      !(this.isEnabled('swipe') && swipePointers === 2)
+
+    if (scrollX && scrollY && zoom) {
+      return 'manipulation'
+    }
+
+    const actions = [scrollX && 'pan-x', scrollY && 'pan-y', zoom && 'pinch-zoom'].filter(Boolean)
+    return actions.length > 0 ? actions.join(' ') : 'none'
   }
 
   private addEventListeners(): void {
@@ -58,422 +492,279 @@ class Gestuelle {
   }
 
   private onPointerDown = (event: PointerEvent): void => {
-    event.preventDefault()
+    const element = this.resolveTarget(event)
 
-    this.activePointers.set(event.pointerId, {
-      id: event.pointerId,
-      startX: event.clientX,
-      startY: event.clientY,
-      currentX: event.clientX,
-      currentY: event.clientY,
-      pointerType: event.pointerType,
-      downTime: performance.now(),
-    })
+    if (!element) {
+      return
+    }
 
-    if (this.activePointers.size === 1) {
-      // First pointer down: potential single-touch gestures
-      this.state = GestureState.POSSIBLE_TAP
-
-      const pressConfig = this.config.press
-      const minPressDuration = pressConfig?.minDuration ?? 500
-      this.pressTimeoutId = window.setTimeout(this.onPressTimeout, minPressDuration)
-    } else if (this.activePointers.size === 2) {
-      // Second pointer down: potential multi-touch gestures
-      this.clearPressTimeout()
-
-      // Cancel any ongoing panning gesture
-      if (this.state === GestureState.PANNING) {
-        const primaryPointer = this.activePointers.values().next().value
-        if (primaryPointer) {
-          this.dispatchGestureEvent('pancancel', {
-            x: primaryPointer.currentX,
-            y: primaryPointer.currentY,
-            deltaX: 0,
-            deltaY: 0,
-            offsetX: primaryPointer.currentX - primaryPointer.startX,
-            offsetY: primaryPointer.currentY - primaryPointer.startY,
-            pointerType: primaryPointer.pointerType,
-          })
-        }
+    const target = this.getTarget(element)
+    const core = target.core
+
+    if (core.pointerCount === 0) {
+      target.matrix = null
+    }
+
+    core.process(this.getSample(event, 'down'))
+
+    // Pointers dropped by the core to make room for this one
+    for (const [pointerId, trackedPointer] of this.trackedPointers) {
+      if (trackedPointer.target === target && !core.hasPointer(pointerId)) {
+        this.releasePointer(pointerId)
       }
+    }
 
-      this.state = GestureState.POSSIBLE_MULTI_TOUCH
+    if (core.hasPointer(event.pointerId)) {
+      this.trackPointer(event.pointerId, target)
     } else {
-      return
+      this.dropIdleTarget(target)
     }
+  }
 
-    // Request pointer capture. This ensures that subsequent `pointermove`,
-    // `pointerup`, and `pointercancel` events for this pointerId will be
-    // dispatched to *this* element, even if the pointer moves outside its bounds.
-    this.element.setPointerCapture(event.pointerId)
-  }
-
-  private onPressTimeout = (): void => {
-    if (this.state === GestureState.POSSIBLE_TAP) {
-      const pointer = this.activePointers.values().next().value
-      if (pointer) {
-        const pressConfig = this.config.press
-        const maxPressDistance = pressConfig?.maxDistance ?? 10
-        const distance = Math.sqrt((pointer.currentX - pointer.startX) ** 2 + (pointer.currentY - pointer.startY) ** 2)
-
-        if (distance <= maxPressDistance) {
-          this.state = GestureState.PRESSING
-          this.dispatchGestureEvent('pressstart', {
-            x: pointer.currentX,
-            y: pointer.currentY,
-            pointerType: pointer.pointerType,
-            duration: performance.now() - pointer.downTime,
-          })
-        } else {
-          this.resetGestureState()
-        }
-      }
+  /**
+   * Makes the element the event is for the target of the gestures made with the wheel or the keyboard.
+   * Returns false if the event is for no target.
+   */
+  private acquireInputTarget(event: Event): boolean {
+    const element = this.resolveTarget(event)
+
+    if (!element) {
+      return false
     }
-    this.pressTimeoutId = null
+
+    this.inputTarget = { element: element, matrix: null }
+    return true
   }
 
-  private onPointerMove = (event: PointerEvent): void => {
-    const pointer = this.activePointers.get(event.pointerId)
+  /**
+   * Returns the element the gestures of the event are recognized on, if any.
+   */
+  private resolveTarget(event: Event): HTMLElement | null {
+    const delegate = this.config.delegate
 
-    if (!pointer) {
-      return
+    if (delegate === undefined) {
+      return this.element
     }
 
-    if (this.activePointers.size === 2) {
-      // Update the values of the moved pointer
-      pointer.currentX = event.clientX
-      pointer.currentY = event.clientY
-      this.activePointers.set(pointer.id, pointer)
-
-      const otherPointer = Array.from(this.activePointers.values()).find((p) => p.id !== event.pointerId)!
-
-      const centerX = (pointer.startX + otherPointer.startX) / 2
-      const centerY = (pointer.startY + otherPointer.startY) / 2
-
-      const distance = Math.sqrt(
-        (otherPointer.currentX - pointer.currentX) ** 2 + (otherPointer.currentY - pointer.currentY) ** 2,
-      )
-      const angle = rad2deg(
-        Math.atan2(otherPointer.currentY - pointer.currentY, otherPointer.currentX - pointer.currentX),
-      )
-
-      if (this.state === GestureState.POSSIBLE_MULTI_TOUCH) {
-        const pinchConfig = this.config.pinch
-        const pinchThreshold = pinchConfig?.threshold ?? 5
-
-        if (distance >= pinchThreshold) {
-          this.state = GestureState.PINCHING
-          this.dispatchGestureEvent('pinchstart', {
-            x: centerX,
-            y: centerY,
-            pointerType: pointer.pointerType,
-            centerX: centerX,
-            centerY: centerY,
-            distance: distance,
-            angle: angle,
-          })
-        }
-      }
+    const target = event.target instanceof Element ? event.target.closest<HTMLElement>(delegate) : null
 
-      if (this.state === GestureState.PINCHING) {
-        this.dispatchGestureEvent('pinchmove', {
-          x: centerX,
-          y: centerY,
-          pointerType: pointer.pointerType,
-          centerX: centerX,
-          centerY: centerY,
-          distance: distance,
-          angle: angle,
-        })
-      }
+    return target && target !== this.element && this.element.contains(target) ? target : null
+  }
 
-      return
+  /**
+   * Captures the pointer tracked by the core of the target.
+   */
+  private trackPointer(pointerId: number, target: PointerTarget): void {
+    const chain = pointerChains.get(pointerId) ?? []
+    pointerChains.set(pointerId, [...chain, this])
+
+    // Request pointer capture. This ensures that subsequent `pointermove`,
+    // `pointerup`, and `pointercancel` events for this pointerId will be
+    // dispatched to *this* element, even if the pointer moves outside its bounds.
+    // An instance nested in this one already did, the events bubbling up from its element.
+    if (chain.length === 0) {
+      target.element.setPointerCapture(pointerId)
+      this.trackedPointers.set(pointerId, { target: target, capture: target.element })
+    } else {
+      this.trackedPointers.set(pointerId, { target: target, capture: null })
     }
+  }
 
-    const deltaX = event.clientX - pointer.currentX
-    const deltaY = event.clientY - pointer.currentY
-
-    pointer.currentX = event.clientX
-    pointer.currentY = event.clientY
-
-    const offsetX = pointer.currentX - pointer.startX
-    const offsetY = pointer.currentY - pointer.startY
-    const distance = Math.sqrt(offsetX ** 2 + offsetY ** 2)
-
-    switch (this.state) {
-      case GestureState.POSSIBLE_TAP: {
-        const panConfig = this.config.pan
-        const panThreshold = panConfig?.threshold ?? 5
-
-        // If movement exceeds the pan threshold, starts it
-        if (distance >= panThreshold) {
-          this.clearPressTimeout()
-          this.state = GestureState.PANNING
-          this.dispatchGestureEvent('panstart', {
-            x: pointer.currentX,
-            y: pointer.currentY,
-            deltaX: deltaX,
-            deltaY: deltaY,
-            offsetX: offsetX,
-            offsetY: offsetY,
-            pointerType: pointer.pointerType,
-          })
-        }
-        break
-      }
+  private onPointerMove = (event: PointerEvent): void => {
+    const core = this.trackedPointers.get(event.pointerId)?.target.core
 
-      case GestureState.PRESSING: {
-        const pressConfig = this.config.press
-        const maxPressDistance = pressConfig?.maxDistance ?? 10
-
-        // If a press moves too far, it cancels the press and might become a pan
-        if (distance >= maxPressDistance) {
-          this.dispatchGestureEvent('presscancel', {
-            x: pointer.currentX,
-            y: pointer.currentY,
-            pointerType: pointer.pointerType,
-            duration: performance.now() - pointer.downTime,
-          })
-          this.state = GestureState.PANNING
-          this.dispatchGestureEvent('panstart', {
-            x: pointer.currentX,
-            y: pointer.currentY,
-            deltaX: deltaX,
-            deltaY: deltaY,
-            offsetX: offsetX,
-            offsetY: offsetY,
-            pointerType: pointer.pointerType,
-          })
-        }
-        break
-      }
+    if (!core) {
+      return
+    }
 
-      case GestureState.PANNING:
-        this.dispatchGestureEvent('panmove', {
-          x: pointer.currentX,
-          y: pointer.currentY,
-          deltaX: deltaX,
-          deltaY: deltaY,
-          offsetX: offsetX,
-          offsetY: offsetY,
-          pointerType: pointer.pointerType,
-        })
-        break
+    core.process(this.getSample(event, 'move'))
 
-      case GestureState.IDLE:
-      case GestureState.SWIPING:
-      case GestureState.CANCELED:
-        break
+    // The browser keeps handling the movements until a gesture is recognized
+    if (core.active) {
+      event.preventDefault()
     }
   }
 
   private onPointerUp = (event: PointerEvent): void => {
-    const pointer = this.activePointers.get(event.pointerId)
+    const core = this.trackedPointers.get(event.pointerId)?.target.core
 
-    if (!pointer) {
+    if (!core) {
       return
     }
 
-    // Release pointer capture immediately
-    this.element.releasePointerCapture(event.pointerId)
-    this.activePointers.delete(event.pointerId)
-
-    // Handle multi-touch pointer up first (if one pointer remains)
-    if (this.activePointers.size === 1) {
-      const [otherPointer] = this.activePointers.values()
-
-      const centerX = (pointer.startX + otherPointer.startX) / 2
-      const centerY = (pointer.startY + otherPointer.startY) / 2
-
-      const distance = Math.sqrt(
-        (otherPointer.currentX - pointer.currentX) ** 2 + (otherPointer.currentY - pointer.currentY) ** 2,
-      )
-      const angle = rad2deg(
-        Math.atan2(otherPointer.currentY - pointer.currentY, otherPointer.currentX - pointer.currentX),
-      )
-
-      switch (this.state) {
-        case GestureState.PINCHING: {
-          this.dispatchGestureEvent('pinchend', {
-            x: pointer.currentX,
-            y: pointer.currentY,
-            pointerType: pointer.pointerType,
-            centerX: centerX,
-            centerY: centerY,
-            distance: distance,
-            angle: angle,
-          })
-          break
-        }
-      }
+    core.process(this.getSample(event, 'up'))
+    this.releasePointer(event.pointerId)
+  }
+
+  private onPointerCancel = (event: PointerEvent): void => {
+    const target = this.trackedPointers.get(event.pointerId)?.target
 
+    if (!target) {
       return
-    } else if (this.activePointers.size === 0) {
-      const offsetX = pointer.currentX - pointer.startX
-      const offsetY = pointer.currentY - pointer.startY
-      const distance = Math.sqrt(offsetX ** 2 + offsetY ** 2)
-      const duration = performance.now() - pointer.downTime
-
-      switch (this.state) {
-        case GestureState.POSSIBLE_TAP: {
-          this.clearPressTimeout()
-          const tapConfig = this.config.tap
-          const maxTapDuration = tapConfig?.maxDuration ?? 250
-          const maxTapDistance = tapConfig?.maxDistance ?? 10
-
-          if (duration <= maxTapDuration && distance <= maxTapDistance) {
-            this.dispatchGestureEvent('tap', {
-              x: pointer.currentX,
-              y: pointer.currentY,
-              pointerType: pointer.pointerType,
-            })
-          }
-          break
-        }
+    }
 
-        case GestureState.PRESSING:
-          this.clearPressTimeout()
-          this.dispatchGestureEvent('pressend', {
-            x: pointer.currentX,
-            y: pointer.currentY,
-            pointerType: pointer.pointerType,
-            duration: duration,
-          })
-          break
-
-        case GestureState.PANNING: {
-          const swipeConfig = this.config.swipe
-          const minSwipeVelocity = swipeConfig?.minVelocity ?? 0.3
-          const minSwipeDistance = swipeConfig?.minDistance ?? 30
-          const maxSwipeDuration = swipeConfig?.maxDuration ?? 300
-
-          const velocityX = offsetX / duration
-          const velocityY = offsetY / duration
-          const velocity = Math.sqrt(velocityX ** 2 + velocityY ** 2)
-
-          if (velocity >= minSwipeVelocity && distance >= minSwipeDistance && duration <= maxSwipeDuration) {
-            let direction: SwipeDirection | undefined
-
-            if (Math.abs(offsetX) > Math.abs(offsetY)) {
-              direction = offsetX > 0 ? 'right' : 'left'
-            } else {
-              direction = offsetY > 0 ? 'down' : 'up'
-            }
-
-            this.state = GestureState.SWIPING
-
-            this.dispatchGestureEvent('swipe', {
-              x: pointer.currentX,
-              y: pointer.currentY,
-              pointerType: pointer.pointerType,
-              velocityX: velocityX,
-              velocityY: velocityY,
-              velocity: velocity,
-              direction: direction,
-              distance: distance,
-            })
-          } else {
-            // Not a swipe, just a regular pan end
-            this.dispatchGestureEvent('panend', {
-              x: pointer.currentX,
-              y: pointer.currentY,
-              deltaX: 0,
-              deltaY: 0,
-              offsetX: offsetX,
-              offsetY: offsetY,
-              pointerType: pointer.pointerType,
-            })
-          }
-          break
-        }
+    target.core.process(this.getSample(event, 'cancel'))
+
+    // The other pointers of the target are dropped along with it, the ones of the other targets go on
+    for (const [pointerId, trackedPointer] of this.trackedPointers) {
+      if (trackedPointer.target === target) {
+        this.releasePointer(pointerId)
       }
     }
+  }
 
-    this.resetGestureState()
+  private getSample(event: PointerEvent, phase: PointerSample['phase']): PointerSample {
+    return {
+      id: event.pointerId,
+      x: event.clientX,
+      y: event.clientY,
+      type: event.pointerType,
+      time: this.core.clock.now(),
+      phase: phase,
+      button: event.button,
+      buttons: event.buttons,
+      shiftKey: event.shiftKey,
+      ctrlKey: event.ctrlKey,
+      altKey: event.altKey,
+      metaKey: event.metaKey,
+    }
   }
 
-  private onPointerCancel = (event: PointerEvent): void => {
-    const pointer = this.activePointers.get(event.pointerId)
+  /**
+   * Stops tracking the pointer, releasing its capture, and drops its target if it has nothing left to recognize.
+   */
+  private releasePointer(pointerId: number): void {
+    const trackedPointer = this.trackedPointers.get(pointerId)
 
-    if (!pointer) {
-      return
+    trackedPointer?.capture?.releasePointerCapture(pointerId)
+    this.trackedPointers.delete(pointerId)
+
+    const chain = (pointerChains.get(pointerId) ?? []).filter((instance) => instance !== this)
+
+    if (chain.length > 0) {
+      pointerChains.set(pointerId, chain)
+    } else {
+      pointerChains.delete(pointerId)
     }
 
-    this.element.releasePointerCapture(event.pointerId)
-    this.activePointers.delete(event.pointerId)
-    this.clearPressTimeout()
+    if (trackedPointer) {
+      this.dropIdleTarget(trackedPointer.target)
+    }
+  }
 
-    switch (this.state) {
-      case GestureState.POSSIBLE_TAP:
-      case GestureState.PRESSING:
-        this.dispatchGestureEvent('presscancel', {
-          x: pointer.currentX,
-          y: pointer.currentY,
-          pointerType: pointer.pointerType,
-          duration: performance.now() - pointer.downTime,
-        })
-        break
-      case GestureState.PANNING:
-        this.dispatchGestureEvent('pancancel', {
-          x: pointer.currentX,
-          y: pointer.currentY,
-          deltaX: 0,
-          deltaY: 0,
-          offsetX: pointer.currentX - pointer.startX,
-          offsetY: pointer.currentY - pointer.startY,
-          pointerType: pointer.pointerType,
+  private releasePointers(): void {
+    for (const pointerId of this.trackedPointers.keys()) {
+      this.releasePointer(pointerId)
+    }
+  }
+
+  /**
+   * Cancels the gestures of the instances attached around the element that track the same pointers as the target,
+   * the innermost instance having the first claim on them, unless told to spare the gestures in progress.
+   */
+  private cancelAncestors(target: PointerTarget, spareActive = false): void {
+    const ancestorCores = new Set<GestuelleCore>()
+
+    for (const [pointerId, trackedPointer] of this.trackedPointers) {
+      const chain = pointerChains.get(pointerId) ?? []
+      const index = chain.indexOf(this)
+
+      if (trackedPointer.target === target && index !== -1) {
+        chain.slice(index + 1).forEach((instance) => {
+          const ancestorCore = instance.trackedPointers.get(pointerId)?.target.core
+
+          if (ancestorCore) {
+            ancestorCores.add(ancestorCore)
+          }
         })
-        break
+      }
     }
 
-    this.resetGestureState()
+    ancestorCores.forEach((core) => {
+      if (!spareActive || !core.active) {
+        core.cancel()
+      }
+    })
   }
 
   /**
-   * Dispatches a custom gesture event from the target element.
+   * Dispatches a custom gesture event from the target element. The start events are cancelable,
+   * returns false if one was canceled to refuse its gesture.
    */
   private dispatchGestureEvent<K extends keyof GestuelleEventMap>(
+    target: GestureTarget,
     type: K,
     detail: GestuelleEventMap[K]['detail'],
-  ): void {
-    this.element.dispatchEvent(new CustomEvent(type, { detail: detail }))
+  ): boolean {
+    const element = target.element
+    const coordinateSpace = this.config.coordinateSpace ?? 'viewport'
+
+    target.matrix ??= getElementMatrix(element)
+
+    // Delegated events bubble up to the element the instance is attached to
+    return element.dispatchEvent(
+      new CustomEvent(type, {
+        detail: { ...toCoordinateSpace(detail, element, coordinateSpace, target.matrix), target: element },
+        bubbles: this.config.delegate !== undefined,
+        cancelable: type.endsWith('start'),
+      }),
+    )
   }
 
   /**
-   * Clears the press timeout if it's active.
+   * Puts back the `touch-action` the element had before being managed.
    */
-  private clearPressTimeout(): void {
-    if (this.pressTimeoutId !== null) {
-      window.clearTimeout(this.pressTimeoutId)
-      this.pressTimeoutId = null
+  private restoreTouchAction(): void {
+    if (this.originalTouchAction !== null) {
+      this.element.style.touchAction = this.originalTouchAction
+      this.originalTouchAction = null
     }
   }
 
   /**
-   * Resets the internal gesture state and clears any active pointers.
+   * Destroys the instance when the given signal is aborted, instead of the one given before.
    */
-  private resetGestureState(): void {
-    this.state = GestureState.IDLE
-    this.activePointers.forEach((pointer) => {
-      this.element.releasePointerCapture(pointer.id)
-    })
-    this.activePointers.clear()
-    this.clearPressTimeout()
+  private watchSignal(signal: AbortSignal | undefined): void {
+    this.unwatchSignal?.()
+    this.unwatchSignal = watchSignals([signal], () => this.destroy())
   }
 
   public destroy() {
     this.removeEventListeners()
-    this.resetGestureState()
+    this.wheel.destroy()
+    this.keyboard.destroy()
+    this.restoreTouchAction()
+    this.core.destroy()
+    this.descendantTargets.forEach((target) => {
+      target.core.destroy()
+    })
+    this.descendantTargets.clear()
+    this.releasePointers()
+    this.inputTarget = { element: this.element, matrix: null }
+    this.lifetime.abort(new DOMException('The instance was destroyed', 'AbortError'))
+    this.unwatchSignal?.()
   }
 }
 
-export function createGestuelle(element: HTMLElement, config?: GestuelleConfig): Gestuelle {
-  return new Gestuelle(element, config ?? {})
+export function createGestuelle(element: HTMLElement, config?: GestuelleConfig, options?: GestuelleOptions): Gestuelle {
+  return new Gestuelle(element, config ?? {}, options ?? {})
 }
 
 declare global {
   // Augment the HTMLElement events with the gesture ones
-  interface HTMLElementEventMap extends GestuelleEventMap {}
+  interface HTMLElementEventMap extends GestuelleEventMap {
+    transformchange: CustomEvent<TransformChangeEventDetail>
+  }
 }
 
+export {
+  BaseRecognizer,
+  createGestuelleCore,
+  createTransformController,
+  createVirtualClock,
+  defaultClock,
+  recordGestures,
+  replayGestures,
+}
+export type { Gestuelle, GestuelleCore, TransformController, VirtualClock }
 export * from './types'
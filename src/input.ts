@@ -0,0 +1,25 @@
+import type { Clock, GestuelleConfig, GestuelleEventMap, GestureFilterInput, GestureName } from './types'
+
+/**
+ * The instance an input adapter, like the wheel or the keyboard one, reports the gestures of.
+ */
+export interface InputAdapterHost {
+  /** The element listened to. */
+  readonly element: HTMLElement
+  /** The element the current gesture is recognized on, the matching descendant in delegated mode. */
+  readonly target: HTMLElement
+  /** The current configuration of the instance. */
+  readonly config: Readonly<GestuelleConfig>
+  /** The time source and timers of the instance. */
+  readonly clock: Clock
+  /** The number of pointers down, the other input being ignored while the pointers make gestures. */
+  readonly pointerCount: number
+  /** Whether the gesture is enabled. */
+  isEnabled(gesture: GestureName): boolean
+  /** Whether the gesture can be made with the given input, given its pointer type, button and modifier key filters. */
+  accepts(gesture: GestureName, input: GestureFilterInput): boolean
+  /** Makes the element the event is for the target of the gesture, returns false if there is none. */
+  acquireTarget(event: Event): boolean
+  /** Dispatches a gesture event from the target, returns false if the gesture is refused. */
+  dispatch<K extends keyof GestuelleEventMap>(type: K, detail: GestuelleEventMap[K]['detail']): boolean
+}
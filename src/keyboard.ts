@@ -0,0 +1,521 @@
+import type { InputAdapterHost } from './input'
+import type {
+  GestureEventDetail,
+  GestureName,
+  KeyboardConfig,
+  PanEventDetail,
+  PinchEventDetail,
+  PressEventDetail,
+  SwipeDirection,
+} from './types'
+
+type KeyAction = 'tap' | 'press' | 'arrow' | 'zoomIn' | 'zoomOut'
+
+const ARROW_DIRECTIONS: Record<string, SwipeDirection> = {
+  ArrowLeft: 'left',
+  ArrowRight: 'right',
+  ArrowUp: 'up',
+  ArrowDown: 'down',
+}
+
+// Names of the keys in `aria-keyshortcuts` differing from their `KeyboardEvent.key`
+const ARIA_KEY_NAMES: Record<string, string> = {
+  ' ': 'Space',
+  '+': 'Plus',
+}
+
+interface HeldKey {
+  /** The key held down. */
+  key: string
+  /** Timestamp of the keydown. */
+  downTime: number
+  /** Whether the key is reported as a press. */
+  pressing: boolean
+  /** Whether `shift` was held along with the key, for the modifier key filters of the gestures. */
+  shiftKey: boolean
+}
+
+/**
+ * Reports the keyboard input of an element as gestures, while enabled by the `keyboard` option, so the users
+ * who cannot use a pointer reach them as well. The gestures are located at the center of their target.
+ */
+export class KeyboardAdapter {
+  private host: InputAdapterHost
+
+  private listening = false
+
+  // Attributes of the element before they were managed, null for the missing ones
+  private originalAttributes: Map<string, string | null> = new Map()
+
+  private heldKey: HeldKey | null = null
+  private cancelPressTimeout: (() => void) | null = null
+
+  // Arrow keys held down while panning, and the offset of the pan
+  private arrows: Set<string> = new Set()
+  private panOffset: [number, number] | null = null
+
+  // Zoom keys held down while pinching, and the scale of the pinch
+  private zoomKeys: Set<string> = new Set()
+  private pinchScale: number | null = null
+
+  // Whether the pan or the pinch was refused, until their keys are released
+  private panRefused = false
+  private pinchRefused = false
+
+  constructor(host: InputAdapterHost) {
+    this.host = host
+    this.update()
+  }
+
+  /**
+   * Listens to the keyboard while the `keyboard` option is set, to be called when the configuration changes.
+   */
+  public update(): void {
+    const enabled = Boolean(this.host.config.keyboard)
+
+    if (enabled !== this.listening) {
+      this.listening = enabled
+
+      if (enabled) {
+        this.addEventListeners()
+      } else {
+        this.cancel()
+        this.removeEventListeners()
+      }
+    }
+
+    this.applyAttributes()
+  }
+
+  /**
+   * Cancels the ongoing gestures, dispatching their cancel events.
+   */
+  public cancel(): void {
+    const heldKey = this.heldKey
+
+    this.clearPressTimeout()
+    this.heldKey = null
+
+    if (heldKey?.pressing) {
+      this.host.dispatch('presscancel', this.getPressDetail(heldKey))
+    }
+
+    if (this.panOffset) {
+      this.host.dispatch('pancancel', this.getPanDetail(this.panOffset, 0, 0))
+    }
+
+    if (this.pinchScale !== null) {
+      this.host.dispatch('pinchcancel', this.getPinchDetail(this.pinchScale, 1))
+    }
+
+    this.arrows.clear()
+    this.panOffset = null
+    this.panRefused = false
+    this.zoomKeys.clear()
+    this.pinchScale = null
+    this.pinchRefused = false
+  }
+
+  public destroy(): void {
+    this.cancel()
+
+    if (this.listening) {
+      this.listening = false
+      this.removeEventListeners()
+    }
+
+    this.applyAttributes()
+  }
+
+  private addEventListeners(): void {
+    this.host.element.addEventListener('keydown', this.onKeyDown)
+    this.host.element.addEventListener('keyup', this.onKeyUp)
+    this.host.element.addEventListener('focusout', this.onFocusOut)
+  }
+
+  private removeEventListeners(): void {
+    this.host.element.removeEventListener('keydown', this.onKeyDown)
+    this.host.element.removeEventListener('keyup', this.onKeyUp)
+    this.host.element.removeEventListener('focusout', this.onFocusOut)
+  }
+
+  /**
+   * Makes the element focusable and describes its keys, or puts back its attributes once the keyboard is disabled.
+   * The matching descendants are left to the page in delegated mode.
+   */
+  private applyAttributes(): void {
+    const element = this.host.element
+    const managed = this.listening && this.host.config.delegate === undefined
+
+    if (!managed) {
+      for (const [name, value] of this.originalAttributes) {
+        if (value === null) {
+          element.removeAttribute(name)
+        } else {
+          element.setAttribute(name, value)
+        }
+      }
+
+      this.originalAttributes.clear()
+      return
+    }
+
+    if (this.originalAttributes.size === 0) {
+      this.originalAttributes.set('tabindex', element.getAttribute('tabindex'))
+      this.originalAttributes.set('aria-keyshortcuts', element.getAttribute('aria-keyshortcuts'))
+    }
+
+    if (this.originalAttributes.get('tabindex') === null && element.tabIndex < 0) {
+      element.setAttribute('tabindex', '0')
+    }
+
+    const shortcuts = this.getKeys().map((key) => ARIA_KEY_NAMES[key] ?? key)
+
+    if (shortcuts.length > 0) {
+      element.setAttribute('aria-keyshortcuts', shortcuts.join(' '))
+    } else {
+      element.removeAttribute('aria-keyshortcuts')
+    }
+  }
+
+  private onKeyDown = (event: KeyboardEvent): void => {
+    // The shortcuts of the browser, like zooming the page, are left alone
+    if (event.ctrlKey || event.metaKey || event.altKey || this.host.pointerCount > 0 || !this.isForTarget(event)) {
+      return
+    }
+
+    const action = this.getAction(event.key, event.shiftKey)
+
+    if (!action) {
+      return
+    }
+
+    if (!this.isBusy() && !this.host.acquireTarget(event)) {
+      return
+    }
+
+    event.preventDefault()
+
+    switch (action) {
+      case 'tap':
+      case 'press':
+        if (!event.repeat && !this.heldKey) {
+          this.holdKey(event.key, event.shiftKey, action === 'press')
+        }
+        break
+
+      case 'arrow':
+        this.onArrowDown(event.key, event.repeat)
+        break
+
+      case 'zoomIn':
+      case 'zoomOut': {
+        const keyboardConfig = this.getConfig()
+        const zoomStep = keyboardConfig.zoomStep ?? 1.25
+
+        this.zoomKeys.add(event.key)
+        this.zoom(action === 'zoomIn' ? zoomStep : 1 / zoomStep)
+        break
+      }
+    }
+  }
+
+  private onKeyUp = (event: KeyboardEvent): void => {
+    if (this.heldKey?.key === event.key) {
+      event.preventDefault()
+      this.releaseKey(this.heldKey)
+    }
+
+    if (this.arrows.delete(event.key) && this.arrows.size === 0) {
+      this.panRefused = false
+
+      if (this.panOffset) {
+        this.host.dispatch('panend', this.getPanDetail(this.panOffset, 0, 0))
+        this.panOffset = null
+      }
+    }
+
+    if (this.zoomKeys.delete(event.key) && this.zoomKeys.size === 0) {
+      this.pinchRefused = false
+
+      if (this.pinchScale !== null) {
+        this.host.dispatch('pinchend', this.getPinchDetail(this.pinchScale, 1))
+        this.pinchScale = null
+      }
+    }
+  }
+
+  private onFocusOut = (): void => {
+    // The keyup events go elsewhere once the element lost the focus
+    this.cancel()
+  }
+
+  /**
+   * Starts tapping with the key, pressing right away or once held for the press duration.
+   */
+  private holdKey(key: string, shiftKey: boolean, pressing: boolean): void {
+    const heldKey: HeldKey = { key: key, downTime: this.host.clock.now(), pressing: false, shiftKey: shiftKey }
+    this.heldKey = heldKey
+
+    if (pressing) {
+      this.startPress(heldKey)
+    } else if (this.canMake('press', shiftKey)) {
+      const pressConfig = this.host.config.press
+      const minPressDuration = pressConfig?.minDuration ?? 500
+
+      this.cancelPressTimeout = this.host.clock.setTimeout(() => {
+        this.cancelPressTimeout = null
+        this.startPress(heldKey)
+      }, minPressDuration)
+    }
+  }
+
+  private startPress(heldKey: HeldKey): void {
+    heldKey.pressing = true
+
+    if (!this.host.dispatch('pressstart', this.getPressDetail(heldKey))) {
+      // The key is ignored until released
+      this.heldKey = null
+    }
+  }
+
+  /**
+   * Ends the press of the released key, or taps if it was not held long enough.
+   */
+  private releaseKey(heldKey: HeldKey): void {
+    this.clearPressTimeout()
+    this.heldKey = null
+
+    if (heldKey.pressing) {
+      this.host.dispatch('pressend', this.getPressDetail(heldKey))
+    } else if (this.canMake('tap', heldKey.shiftKey)) {
+      this.host.dispatch('tap', { ...this.getDetail(), tapCount: 1 })
+    }
+  }
+
+  /**
+   * Moves the pan by a step, or swipes, in the direction of the arrow.
+   */
+  private onArrowDown(key: string, repeat: boolean): void {
+    const keyboardConfig = this.getConfig()
+    const direction = ARROW_DIRECTIONS[key]
+
+    if ((keyboardConfig.arrows ?? 'pan') === 'swipe') {
+      if (!repeat) {
+        this.swipe(direction)
+      }
+      return
+    }
+
+    const panStep = keyboardConfig.panStep ?? 10
+    const deltaX = direction === 'left' ? -panStep : direction === 'right' ? panStep : 0
+    const deltaY = direction === 'up' ? -panStep : direction === 'down' ? panStep : 0
+
+    this.arrows.add(key)
+
+    if (this.panRefused) {
+      return
+    }
+
+    if (!this.panOffset) {
+      if (!this.host.dispatch('panstart', this.getPanDetail([0, 0], 0, 0))) {
+        // The autorepeat of the arrows does not start it again
+        this.panRefused = true
+        return
+      }
+
+      this.panOffset = [0, 0]
+    }
+
+    this.panOffset[0] += deltaX
+    this.panOffset[1] += deltaY
+    this.host.dispatch('panmove', this.getPanDetail(this.panOffset, deltaX, deltaY))
+  }
+
+  /**
+   * Swipes in the given direction, as the smallest swipe recognized from the pointers.
+   */
+  private swipe(direction: SwipeDirection): void {
+    const swipeConfig = this.host.config.swipe
+    const velocity = swipeConfig?.minVelocity ?? 0.3
+    const distance = swipeConfig?.minDistance ?? 30
+    const horizontal = direction === 'left' || direction === 'right'
+    const sign = direction === 'left' || direction === 'up' ? -1 : 1
+
+    this.host.dispatch('swipe', {
+      ...this.getDetail(),
+      velocityX: horizontal ? sign * velocity : 0,
+      velocityY: horizontal ? 0 : sign * velocity,
+      velocity: velocity,
+      direction: direction,
+      distance: distance,
+    })
+  }
+
+  private zoom(deltaScale: number): void {
+    if (this.pinchRefused) {
+      return
+    }
+
+    const started = this.pinchScale === null
+    const scale = (this.pinchScale ?? 1) * deltaScale
+    const detail = this.getPinchDetail(scale, deltaScale)
+
+    if (started && !this.host.dispatch('pinchstart', detail)) {
+      this.pinchRefused = true
+      return
+    }
+
+    this.pinchScale = scale
+    this.host.dispatch('pinchmove', detail)
+  }
+
+  /**
+   * Whether a gesture made with the keyboard is going on.
+   */
+  private isBusy(): boolean {
+    return this.heldKey !== null || this.panOffset !== null || this.pinchScale !== null
+  }
+
+  /**
+   * Returns the action of the key, if its gesture is enabled and can be made with the keyboard.
+   */
+  private getAction(key: string, shiftKey = false): KeyAction | null {
+    const keyboardConfig = this.getConfig()
+
+    if ((keyboardConfig.tapKeys ?? ['Enter', ' ']).includes(key)) {
+      return this.canMake('tap', shiftKey) || this.canMake('press', shiftKey) ? 'tap' : null
+    }
+
+    if ((keyboardConfig.pressKeys ?? ['ContextMenu']).includes(key)) {
+      return this.canMake('press', shiftKey) ? 'press' : null
+    }
+
+    if (key in ARROW_DIRECTIONS) {
+      const arrows = keyboardConfig.arrows ?? 'pan'
+      return arrows !== false && this.canMake(arrows, shiftKey) && this.followsPanDirection(ARROW_DIRECTIONS[key])
+        ? 'arrow'
+        : null
+    }
+
+    if ((keyboardConfig.zoomInKeys ?? ['+', '=']).includes(key)) {
+      return this.canMake('pinch', shiftKey) ? 'zoomIn' : null
+    }
+
+    if ((keyboardConfig.zoomOutKeys ?? ['-']).includes(key)) {
+      return this.canMake('pinch', shiftKey) ? 'zoomOut' : null
+    }
+
+    return null
+  }
+
+  /**
+   * Whether the gesture is enabled and can be made with the keyboard, given its pointer type, button and modifier
+   * key filters. The keyboard counts as the primary button, and only `shift` can be held along with its keys.
+   */
+  private canMake(gesture: GestureName, shiftKey: boolean): boolean {
+    return this.host.isEnabled(gesture) && this.host.accepts(gesture, { type: 'keyboard', shiftKey: shiftKey })
+  }
+
+  /**
+   * Whether the key is for the element, or for a matching descendant in delegated mode, rather than for an element
+   * inside it, like a field or a button handling its own keys.
+   */
+  private isForTarget(event: KeyboardEvent): boolean {
+    const delegate = this.host.config.delegate
+    const target = event.target
+
+    if (delegate === undefined) {
+      return target === this.host.element
+    }
+
+    return target instanceof Element && target !== this.host.element && target.matches(delegate)
+  }
+
+  /**
+   * Whether the arrow goes along the axis the pan is allowed on, the others being left to the page.
+   */
+  private followsPanDirection(direction: SwipeDirection): boolean {
+    const panDirection = this.host.config.pan?.direction ?? 'all'
+    const horizontal = direction === 'left' || direction === 'right'
+
+    return panDirection === 'all' || (panDirection === 'horizontal') === horizontal
+  }
+
+  /**
+   * Returns the keys making the enabled gestures.
+   */
+  private getKeys(): string[] {
+    const keyboardConfig = this.getConfig()
+    const keys = [
+      ...(keyboardConfig.tapKeys ?? ['Enter', ' ']),
+      ...(keyboardConfig.pressKeys ?? ['ContextMenu']),
+      ...Object.keys(ARROW_DIRECTIONS),
+      ...(keyboardConfig.zoomInKeys ?? ['+', '=']),
+      ...(keyboardConfig.zoomOutKeys ?? ['-']),
+    ]
+
+    return keys.filter((key, index) => keys.indexOf(key) === index && this.getAction(key) !== null)
+  }
+
+  private getConfig(): KeyboardConfig {
+    return typeof this.host.config.keyboard === 'object' ? this.host.config.keyboard : {}
+  }
+
+  private clearPressTimeout(): void {
+    if (this.cancelPressTimeout !== null) {
+      this.cancelPressTimeout()
+      this.cancelPressTimeout = null
+    }
+  }
+
+  /**
+   * Returns the detail shared by the gestures, located at the center of the target.
+   */
+  private getDetail(): GestureEventDetail {
+    const rect = this.host.target.getBoundingClientRect()
+
+    return {
+      x: rect.left + rect.width / 2,
+      y: rect.top + rect.height / 2,
+      pointerType: 'keyboard',
+      pointerCount: 0,
+    }
+  }
+
+  private getPressDetail(heldKey: HeldKey): PressEventDetail {
+    return { ...this.getDetail(), duration: this.host.clock.now() - heldKey.downTime }
+  }
+
+  private getPanDetail(offset: [number, number], deltaX: number, deltaY: number): PanEventDetail {
+    const detail = this.getDetail()
+
+    return {
+      ...detail,
+      x: detail.x + offset[0],
+      y: detail.y + offset[1],
+      deltaX: deltaX,
+      deltaY: deltaY,
+      offsetX: offset[0],
+      offsetY: offset[1],
+      velocityX: 0,
+      velocityY: 0,
+    }
+  }
+
+  private getPinchDetail(scale: number, deltaScale: number): PinchEventDetail {
+    const detail = this.getDetail()
+
+    return {
+      ...detail,
+      distance: 0,
+      angle: 0,
+      centerX: detail.x,
+      centerY: detail.y,
+      offsetX: 0,
+      offsetY: 0,
+      scale: scale,
+      deltaScale: deltaScale,
+    }
+  }
+}
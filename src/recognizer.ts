@@ -0,0 +1,77 @@
+import {
+  type GestuelleEventMap,
+  type Recognizer,
+  type RecognizerContext,
+  type RecognizerInput,
+  RecognizerState,
+} from './types'
+
+/**
+ * Whether the continuous gesture of a recognizer in that state is in progress.
+ */
+export function isActive(state: RecognizerState): boolean {
+  return state === RecognizerState.BEGAN || state === RecognizerState.CHANGED
+}
+
+/**
+ * Whether a recognizer in that state is done with the current gesture.
+ */
+export function isSettled(state: RecognizerState): boolean {
+  return state === RecognizerState.ENDED || state === RecognizerState.CANCELED || state === RecognizerState.FAILED
+}
+
+/**
+ * Base class of the recognizers, handling their state and the access to the instance.
+ */
+export abstract class BaseRecognizer implements Recognizer {
+  abstract readonly name: string
+  abstract readonly events: readonly (keyof GestuelleEventMap)[]
+
+  protected context!: RecognizerContext
+
+  private currentState: RecognizerState = RecognizerState.POSSIBLE
+
+  get state(): RecognizerState {
+    return this.currentState
+  }
+
+  get enabled(): boolean {
+    return this.context.isEnabled(this.name)
+  }
+
+  get pointers(): number {
+    return 1
+  }
+
+  attach(context: RecognizerContext): void {
+    this.context = context
+  }
+
+  abstract process(input: RecognizerInput): void
+
+  reset(): void {
+    this.currentState = RecognizerState.POSSIBLE
+  }
+
+  /**
+   * Cancels the gesture if it has started, or fails it otherwise.
+   * Recognizers dispatching a cancel event do so before calling it.
+   */
+  cancel(): void {
+    if (isActive(this.state)) {
+      this.setState(RecognizerState.CANCELED)
+    } else if (this.state === RecognizerState.POSSIBLE) {
+      this.setState(RecognizerState.FAILED)
+    }
+  }
+
+  protected setState(state: RecognizerState): void {
+    const previousState = this.currentState
+    this.currentState = state
+    this.context.update(this, previousState)
+  }
+
+  protected emit<K extends keyof GestuelleEventMap>(type: K, detail: GestuelleEventMap[K]['detail']): void {
+    this.context.emit(type, detail)
+  }
+}
@@ -0,0 +1,312 @@
+import { BaseRecognizer, isActive } from '../recognizer'
+import {
+  type PanEventDetail,
+  type PanInertiaEventDetail,
+  type PointerGroup,
+  type PointerType,
+  type Recognizer,
+  type RecognizerInput,
+  RecognizerState,
+} from '../types'
+import { getDistance, getVelocity } from '../utils'
+
+interface InertiaTracker {
+  /** Current X coordinate. */
+  x: number
+  /** Current Y coordinate. */
+  y: number
+  /** Current offset along the X axis since the pan start. */
+  offsetX: number
+  /** Current offset along the Y axis since the pan start. */
+  offsetY: number
+  /** Current velocity along the X axis (px/ms). */
+  velocityX: number
+  /** Current velocity along the Y axis (px/ms). */
+  velocityY: number
+  /** Timestamp of the last frame. */
+  frameTime: number
+  /** Type of the pointer that started the pan. */
+  pointerType: PointerType
+  /** Number of pointers that started the pan. */
+  pointerCount: number
+}
+
+/**
+ * Recognizes pointers dragged across the element, optionally followed by inertia.
+ */
+export class PanRecognizer extends BaseRecognizer {
+  readonly name = 'pan'
+  readonly events = ['panstart', 'panmove', 'panend', 'pancancel', 'paninertia', 'paninertiaend'] as const
+
+  private group: Readonly<PointerGroup> | null = null
+
+  // Current velocity of the pointers (px/ms)
+  private velocityX = 0
+  private velocityY = 0
+
+  // Axis the pan is locked on, if any
+  private lockedAxis: 'x' | 'y' | null = null
+
+  private inertia: InertiaTracker | null = null
+  private cancelInertiaFrame: (() => void) | null = null
+
+  get pointers(): number {
+    return this.context.config.pan?.pointers ?? 1
+  }
+
+  process(input: RecognizerInput): void {
+    const group = input.group
+    this.group = group
+
+    switch (input.phase) {
+      case 'down':
+        if (input.pointers.length > this.pointers) {
+          // Another pointer down: a pan made with fewer pointers is over
+          this.giveUp()
+        }
+        break
+
+      case 'move': {
+        // Ignore the remaining pointers once one of the group has been released
+        if (group.size !== this.pointers || input.pointers.length !== group.size) {
+          break
+        }
+
+        this.updateVelocity(input.pointers, input.time)
+
+        if (isActive(this.state)) {
+          this.setState(RecognizerState.CHANGED)
+          this.emit('panmove', this.getPanDetail(group, group.deltaX, group.deltaY))
+          break
+        }
+
+        const panConfig = this.context.config.pan
+        const panThreshold = panConfig?.threshold ?? 5
+        const distance = getDistance(group.startX, group.startY, group.currentX, group.currentY)
+
+        // If movement exceeds the pan threshold, starts it
+        if (distance >= panThreshold) {
+          this.startPan(group)
+        }
+        break
+      }
+
+      case 'up':
+        if (isActive(this.state)) {
+          // A multi-pointer pan ends as soon as one of its pointers is released
+          this.updateVelocity([input.pointer, ...input.pointers], input.time)
+          this.setState(RecognizerState.ENDED)
+
+          // A swipe replaces the end of the pan
+          if (this.context.getState('swipe') !== RecognizerState.ENDED) {
+            this.emit('panend', this.getPanDetail(group, 0, 0))
+          }
+
+          if (this.context.config.pan?.inertia) {
+            this.startInertia(group)
+          }
+        }
+        break
+    }
+  }
+
+  reset(): void {
+    this.stopInertia()
+    this.group = null
+    this.velocityX = 0
+    this.velocityY = 0
+    this.lockedAxis = null
+    super.reset()
+  }
+
+  cancel(): void {
+    this.stopInertia()
+
+    if (isActive(this.state) && this.group) {
+      this.emit('pancancel', this.getPanDetail(this.group, 0, 0))
+    }
+
+    super.cancel()
+  }
+
+  canRecognizeWith(other: Recognizer): boolean {
+    return other.name === 'swipe'
+  }
+
+  destroy(): void {
+    this.stopInertia()
+  }
+
+  /**
+   * Starts panning, unless the pointers move along an axis the pan is not allowed on.
+   */
+  private startPan(group: Readonly<PointerGroup>): void {
+    const panConfig = this.context.config.pan
+    const panDirection = panConfig?.direction ?? 'all'
+    const lockAxis = panConfig?.lockAxis ?? false
+    const axis = Math.abs(group.currentX - group.startX) > Math.abs(group.currentY - group.startY) ? 'x' : 'y'
+
+    if ((panDirection === 'horizontal' && axis !== 'x') || (panDirection === 'vertical' && axis !== 'y')) {
+      // Decline the gesture and leave the movement to the browser (e.g. to scroll the page)
+      this.setState(RecognizerState.CANCELED)
+      return
+    }
+
+    this.lockedAxis = lockAxis ? axis : null
+    this.setState(RecognizerState.BEGAN)
+    this.emit('panstart', this.getPanDetail(group, group.deltaX, group.deltaY))
+  }
+
+  /**
+   * Fails the pan, dispatching 'pancancel' if it had started, so other gestures can take over.
+   */
+  private giveUp(): void {
+    if (isActive(this.state) && this.group) {
+      this.emit('pancancel', this.getPanDetail(this.group, 0, 0))
+    }
+
+    this.setState(RecognizerState.FAILED)
+  }
+
+  /**
+   * Updates the velocity of the pan from the recent samples of the given pointers.
+   */
+  private updateVelocity(pointers: RecognizerInput['pointers'], time: number): void {
+    const panConfig = this.context.config.pan
+    const velocityWindow = panConfig?.velocityWindow ?? 100
+    ;[this.velocityX, this.velocityY] = getVelocity(pointers, velocityWindow, time)
+  }
+
+  /**
+   * Starts the inertia loop from the last velocity of the pan.
+   */
+  private startInertia(group: Readonly<PointerGroup>): void {
+    const detail = this.getPanDetail(group, 0, 0)
+
+    this.inertia = {
+      x: detail.x,
+      y: detail.y,
+      offsetX: detail.offsetX,
+      offsetY: detail.offsetY,
+      velocityX: detail.velocityX,
+      velocityY: detail.velocityY,
+      frameTime: this.context.clock.now(),
+      pointerType: group.pointerType,
+      pointerCount: group.size,
+    }
+
+    this.cancelInertiaFrame = this.context.clock.requestAnimationFrame(this.onInertiaFrame)
+  }
+
+  private onInertiaFrame = (): void => {
+    const inertia = this.inertia
+
+    if (!inertia) {
+      return
+    }
+
+    const inertiaConfig = typeof this.context.config.pan?.inertia === 'object' ? this.context.config.pan.inertia : {}
+    const friction = inertiaConfig.friction ?? 0.95
+    const minVelocity = inertiaConfig.minVelocity ?? 0.02
+    const bounds = inertiaConfig.bounds ?? {}
+
+    const now = this.context.clock.now()
+    const elapsed = now - inertia.frameTime
+    inertia.frameTime = now
+
+    // Friction is expressed per frame of 16ms, whatever the actual frame rate
+    const decay = friction ** (elapsed / 16)
+    inertia.velocityX *= decay
+    inertia.velocityY *= decay
+
+    let offsetX = inertia.offsetX + inertia.velocityX * elapsed
+    let offsetY = inertia.offsetY + inertia.velocityY * elapsed
+
+    if (bounds.minX !== undefined && offsetX <= bounds.minX) {
+      offsetX = bounds.minX
+      inertia.velocityX = 0
+    } else if (bounds.maxX !== undefined && offsetX >= bounds.maxX) {
+      offsetX = bounds.maxX
+      inertia.velocityX = 0
+    }
+
+    if (bounds.minY !== undefined && offsetY <= bounds.minY) {
+      offsetY = bounds.minY
+      inertia.velocityY = 0
+    } else if (bounds.maxY !== undefined && offsetY >= bounds.maxY) {
+      offsetY = bounds.maxY
+      inertia.velocityY = 0
+    }
+
+    const deltaX = offsetX - inertia.offsetX
+    const deltaY = offsetY - inertia.offsetY
+
+    inertia.x += deltaX
+    inertia.y += deltaY
+    inertia.offsetX = offsetX
+    inertia.offsetY = offsetY
+
+    if (deltaX !== 0 || deltaY !== 0) {
+      this.emit('paninertia', this.getInertiaDetail(inertia, deltaX, deltaY))
+    }
+
+    if (Math.sqrt(inertia.velocityX ** 2 + inertia.velocityY ** 2) < minVelocity) {
+      this.stopInertia()
+      return
+    }
+
+    this.cancelInertiaFrame = this.context.clock.requestAnimationFrame(this.onInertiaFrame)
+  }
+
+  /**
+   * Stops the inertia loop if it's running and dispatches 'paninertiaend'.
+   */
+  private stopInertia(): void {
+    const inertia = this.inertia
+
+    if (this.cancelInertiaFrame !== null) {
+      this.cancelInertiaFrame()
+      this.cancelInertiaFrame = null
+    }
+
+    this.inertia = null
+
+    if (inertia) {
+      this.emit('paninertiaend', this.getInertiaDetail(inertia, 0, 0))
+    }
+  }
+
+  private getInertiaDetail(inertia: InertiaTracker, deltaX: number, deltaY: number): PanInertiaEventDetail {
+    return {
+      x: inertia.x,
+      y: inertia.y,
+      pointerType: inertia.pointerType,
+      pointerCount: inertia.pointerCount,
+      deltaX: deltaX,
+      deltaY: deltaY,
+      offsetX: inertia.offsetX,
+      offsetY: inertia.offsetY,
+      velocityX: inertia.velocityX,
+      velocityY: inertia.velocityY,
+    }
+  }
+
+  private getPanDetail(group: Readonly<PointerGroup>, deltaX: number, deltaY: number): PanEventDetail {
+    // The movement along the other axis is zeroed once locked
+    const factorX = this.lockedAxis === 'y' ? 0 : 1
+    const factorY = this.lockedAxis === 'x' ? 0 : 1
+
+    return {
+      x: group.currentX,
+      y: group.currentY,
+      pointerType: group.pointerType,
+      pointerCount: group.size,
+      deltaX: deltaX * factorX,
+      deltaY: deltaY * factorY,
+      offsetX: (group.currentX - group.startX) * factorX,
+      offsetY: (group.currentY - group.startY) * factorY,
+      velocityX: this.velocityX * factorX,
+      velocityY: this.velocityY * factorY,
+    }
+  }
+}
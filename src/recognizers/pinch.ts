@@ -0,0 +1,190 @@
+import { BaseRecognizer, isActive } from '../recognizer'
+import { type PinchEventDetail, type PointerType, type RecognizerInput, RecognizerState } from '../types'
+import { getDistance, getPointersAngle } from '../utils'
+
+interface PinchTracker {
+  /** Distance between the two pointers when they went down. */
+  startDistance: number
+  /** Center X coordinate between the two pointers when they went down. */
+  startCenterX: number
+  /** Center Y coordinate between the two pointers when they went down. */
+  startCenterY: number
+  /** Current distance between the two pointers. */
+  distance: number
+  /** Current angle between the two pointers (in deg). */
+  angle: number
+  /** Current center X coordinate between the two pointers. */
+  centerX: number
+  /** Current center Y coordinate between the two pointers. */
+  centerY: number
+  /** Scale reported by the last pinch event. */
+  lastScale: number
+  /** Type of the pointers. */
+  pointerType: PointerType
+}
+
+/**
+ * Recognizes two pointers moving closer or further apart.
+ */
+export class PinchRecognizer extends BaseRecognizer {
+  readonly name = 'pinch'
+  readonly events = ['pinchstart', 'pinchmove', 'pinchend', 'pinchcancel'] as const
+
+  private pinch: PinchTracker | null = null
+
+  get pointers(): number {
+    return 2
+  }
+
+  process(input: RecognizerInput): void {
+    const pointers = input.pointers
+
+    switch (input.phase) {
+      case 'down':
+        if (pointers.length > 2) {
+          this.giveUp()
+        } else if (pointers.length === 2) {
+          if (this.pinch) {
+            // The pointers have been swapped under the ongoing pinch
+            this.rebasePinch(this.pinch, pointers)
+          } else {
+            this.startPinch(pointers)
+          }
+        }
+        break
+
+      case 'move':
+        if (this.pinch && pointers.length === 2) {
+          this.updatePinch(this.pinch, pointers)
+        }
+        break
+
+      case 'up':
+        if (isActive(this.state) && this.pinch) {
+          this.setState(RecognizerState.ENDED)
+          this.emit('pinchend', this.getPinchDetail(this.pinch))
+        } else {
+          this.setState(RecognizerState.FAILED)
+        }
+        this.pinch = null
+        break
+    }
+  }
+
+  reset(): void {
+    this.pinch = null
+    super.reset()
+  }
+
+  cancel(): void {
+    if (isActive(this.state) && this.pinch) {
+      this.emit('pinchcancel', this.getPinchDetail(this.pinch))
+    }
+
+    this.pinch = null
+    super.cancel()
+  }
+
+  /**
+   * Fails the pinch, dispatching 'pinchcancel' if it had started, so other gestures can take over.
+   */
+  private giveUp(): void {
+    if (isActive(this.state) && this.pinch) {
+      this.emit('pinchcancel', this.getPinchDetail(this.pinch))
+    }
+
+    this.pinch = null
+    this.setState(RecognizerState.FAILED)
+  }
+
+  private startPinch(pointers: RecognizerInput['pointers']): void {
+    const [first, second] = pointers
+    const distance = getDistance(first.currentX, first.currentY, second.currentX, second.currentY)
+    const centerX = (first.currentX + second.currentX) / 2
+    const centerY = (first.currentY + second.currentY) / 2
+
+    this.pinch = {
+      startDistance: distance,
+      startCenterX: centerX,
+      startCenterY: centerY,
+      distance: distance,
+      angle: getPointersAngle(pointers),
+      centerX: centerX,
+      centerY: centerY,
+      lastScale: 1,
+      pointerType: first.pointerType,
+    }
+  }
+
+  /**
+   * Moves the baseline onto the current pair of pointers, so the reported scale carries on without jumping.
+   */
+  private rebasePinch(pinch: PinchTracker, pointers: RecognizerInput['pointers']): void {
+    const [first, second] = pointers
+    const distance = getDistance(first.currentX, first.currentY, second.currentX, second.currentY)
+    const centerX = (first.currentX + second.currentX) / 2
+    const centerY = (first.currentY + second.currentY) / 2
+    const scale = pinch.startDistance > 0 ? pinch.distance / pinch.startDistance : 1
+
+    pinch.startDistance = scale > 0 ? distance / scale : distance
+    pinch.startCenterX += centerX - pinch.centerX
+    pinch.startCenterY += centerY - pinch.centerY
+    pinch.distance = distance
+    pinch.angle = getPointersAngle(pointers)
+    pinch.centerX = centerX
+    pinch.centerY = centerY
+  }
+
+  /**
+   * Updates the distance and center between the two pointers and dispatches
+   * the pinch events once the distance changed by more than the threshold.
+   */
+  private updatePinch(pinch: PinchTracker, pointers: RecognizerInput['pointers']): void {
+    const [first, second] = pointers
+    pinch.distance = getDistance(first.currentX, first.currentY, second.currentX, second.currentY)
+    pinch.angle = getPointersAngle(pointers)
+    pinch.centerX = (first.currentX + second.currentX) / 2
+    pinch.centerY = (first.currentY + second.currentY) / 2
+
+    let detail: PinchEventDetail
+
+    if (this.state === RecognizerState.POSSIBLE) {
+      const pinchConfig = this.context.config.pinch
+      const pinchThreshold = pinchConfig?.threshold ?? 5
+
+      if (Math.abs(pinch.distance - pinch.startDistance) < pinchThreshold) {
+        return
+      }
+
+      this.setState(RecognizerState.BEGAN)
+      detail = this.getPinchDetail(pinch)
+      this.emit('pinchstart', detail)
+      this.emit('pinchmove', detail)
+    } else {
+      this.setState(RecognizerState.CHANGED)
+      detail = this.getPinchDetail(pinch)
+      this.emit('pinchmove', detail)
+    }
+
+    pinch.lastScale = detail.scale
+  }
+
+  private getPinchDetail(pinch: PinchTracker): PinchEventDetail {
+    const scale = pinch.startDistance > 0 ? pinch.distance / pinch.startDistance : 1
+
+    return {
+      x: pinch.centerX,
+      y: pinch.centerY,
+      pointerType: pinch.pointerType,
+      pointerCount: 2,
+      distance: pinch.distance,
+      angle: pinch.angle,
+      centerX: pinch.centerX,
+      centerY: pinch.centerY,
+      offsetX: pinch.centerX - pinch.startCenterX,
+      offsetY: pinch.centerY - pinch.startCenterY,
+      scale: scale,
+      deltaScale: pinch.lastScale > 0 ? scale / pinch.lastScale : 1,
+    }
+  }
+}
@@ -0,0 +1,128 @@
+import { BaseRecognizer, isActive } from '../recognizer'
+import { type ActivePointer, type PressEventDetail, type RecognizerInput, RecognizerState } from '../types'
+import { getDistance } from '../utils'
+
+/**
+ * Recognizes a single pointer held down without moving.
+ */
+export class PressRecognizer extends BaseRecognizer {
+  readonly name = 'press'
+  readonly events = ['pressstart', 'pressend', 'presscancel'] as const
+
+  private pointer: Readonly<ActivePointer> | null = null
+  private cancelPressTimeout: (() => void) | null = null
+
+  process(input: RecognizerInput): void {
+    switch (input.phase) {
+      case 'down':
+        if (input.pointers.length === 1) {
+          const pressConfig = this.context.config.press
+          const minPressDuration = pressConfig?.minDuration ?? 500
+          this.pointer = input.pointer
+          this.cancelPressTimeout = this.context.clock.setTimeout(this.onPressTimeout, minPressDuration)
+        } else {
+          // Another pointer down: not a press anymore
+          this.giveUp()
+        }
+        break
+
+      case 'move': {
+        const pressConfig = this.context.config.press
+        const maxPressDistance = pressConfig?.maxDistance ?? 10
+        const pointer = input.pointer
+        const distance = getDistance(pointer.startX, pointer.startY, pointer.currentX, pointer.currentY)
+
+        // If a press moves too far, it cancels the press and might become a pan
+        if (distance >= maxPressDistance) {
+          this.giveUp()
+        }
+        break
+      }
+
+      case 'up':
+        this.clearPressTimeout()
+
+        if (isActive(this.state)) {
+          this.emit('pressend', this.getPressDetail(input.pointer))
+          this.setState(RecognizerState.ENDED)
+        } else {
+          this.setState(RecognizerState.FAILED)
+        }
+        break
+    }
+  }
+
+  reset(): void {
+    this.clearPressTimeout()
+    this.pointer = null
+    super.reset()
+  }
+
+  cancel(): void {
+    this.clearPressTimeout()
+
+    if (isActive(this.state) && this.pointer) {
+      this.emit('presscancel', this.getPressDetail(this.pointer))
+    }
+
+    super.cancel()
+  }
+
+  destroy(): void {
+    this.clearPressTimeout()
+  }
+
+  /**
+   * Fails the press, dispatching 'presscancel' if it had started, so other gestures can take over.
+   */
+  private giveUp(): void {
+    this.clearPressTimeout()
+
+    if (isActive(this.state) && this.pointer) {
+      this.emit('presscancel', this.getPressDetail(this.pointer))
+    }
+
+    this.setState(RecognizerState.FAILED)
+  }
+
+  private onPressTimeout = (): void => {
+    this.cancelPressTimeout = null
+
+    const pointer = this.pointer
+
+    if (!pointer || this.state !== RecognizerState.POSSIBLE) {
+      return
+    }
+
+    const pressConfig = this.context.config.press
+    const maxPressDistance = pressConfig?.maxDistance ?? 10
+    const distance = getDistance(pointer.startX, pointer.startY, pointer.currentX, pointer.currentY)
+
+    if (distance <= maxPressDistance) {
+      this.setState(RecognizerState.BEGAN)
+      this.emit('pressstart', this.getPressDetail(pointer))
+    } else {
+      this.setState(RecognizerState.FAILED)
+    }
+  }
+
+  private getPressDetail(pointer: Readonly<ActivePointer>): PressEventDetail {
+    return {
+      x: pointer.currentX,
+      y: pointer.currentY,
+      pointerType: pointer.pointerType,
+      pointerCount: 1,
+      duration: this.context.clock.now() - pointer.downTime,
+    }
+  }
+
+  /**
+   * Clears the press timeout if it's active.
+   */
+  private clearPressTimeout(): void {
+    if (this.cancelPressTimeout !== null) {
+      this.cancelPressTimeout()
+      this.cancelPressTimeout = null
+    }
+  }
+}
@@ -0,0 +1,184 @@
+import { BaseRecognizer, isActive } from '../recognizer'
+import {
+  type PointerType,
+  type Recognizer,
+  type RecognizerInput,
+  RecognizerState,
+  type RotateEventDetail,
+} from '../types'
+import { getPointersAngle, normalizeAngle } from '../utils'
+
+interface RotationTracker {
+  /** Angle between the two pointers when they went down (in deg). */
+  startAngle: number
+  /** Last raw angle between the two pointers, used to unwrap the next one. */
+  previousAngle: number
+  /** Current unwrapped angle between the two pointers. */
+  angle: number
+  /** Rotation reported by the last rotate event. */
+  lastRotation: number
+  /** Current center X coordinate between the two pointers. */
+  centerX: number
+  /** Current center Y coordinate between the two pointers. */
+  centerY: number
+  /** Type of the pointers. */
+  pointerType: PointerType
+}
+
+/**
+ * Recognizes two pointers turning around each other, along a pinch or a pan.
+ */
+export class RotateRecognizer extends BaseRecognizer {
+  readonly name = 'rotate'
+  readonly events = ['rotatestart', 'rotatemove', 'rotateend', 'rotatecancel'] as const
+
+  private rotation: RotationTracker | null = null
+
+  get pointers(): number {
+    return 2
+  }
+
+  process(input: RecognizerInput): void {
+    const pointers = input.pointers
+
+    switch (input.phase) {
+      case 'down':
+        if (pointers.length > 2) {
+          this.giveUp()
+        } else if (pointers.length === 2) {
+          if (this.rotation) {
+            // The pointers have been swapped under the ongoing rotation
+            this.rebaseRotation(this.rotation, pointers)
+          } else {
+            this.startRotation(pointers)
+          }
+        }
+        break
+
+      case 'move':
+        if (this.rotation && pointers.length === 2) {
+          this.updateRotation(this.rotation, pointers)
+        }
+        break
+
+      case 'up':
+        if (isActive(this.state) && this.rotation) {
+          this.setState(RecognizerState.ENDED)
+          this.emit('rotateend', this.getRotationDetail(this.rotation))
+        } else {
+          this.setState(RecognizerState.FAILED)
+        }
+        this.rotation = null
+        break
+    }
+  }
+
+  reset(): void {
+    this.rotation = null
+    super.reset()
+  }
+
+  cancel(): void {
+    if (isActive(this.state) && this.rotation) {
+      this.emit('rotatecancel', this.getRotationDetail(this.rotation))
+    }
+
+    this.rotation = null
+    super.cancel()
+  }
+
+  canRecognizeWith(other: Recognizer): boolean {
+    return other.name === 'pinch' || other.name === 'pan' || other.name === 'swipe'
+  }
+
+  /**
+   * Fails the rotation, dispatching 'rotatecancel' if it had started, so other gestures can take over.
+   */
+  private giveUp(): void {
+    if (isActive(this.state) && this.rotation) {
+      this.emit('rotatecancel', this.getRotationDetail(this.rotation))
+    }
+
+    this.rotation = null
+    this.setState(RecognizerState.FAILED)
+  }
+
+  private startRotation(pointers: RecognizerInput['pointers']): void {
+    const [first, second] = pointers
+    const angle = getPointersAngle(pointers)
+
+    this.rotation = {
+      startAngle: angle,
+      previousAngle: angle,
+      angle: angle,
+      lastRotation: 0,
+      centerX: (first.currentX + second.currentX) / 2,
+      centerY: (first.currentY + second.currentY) / 2,
+      pointerType: first.pointerType,
+    }
+  }
+
+  /**
+   * Moves the baseline onto the current pair of pointers, so the reported rotation carries on without jumping.
+   */
+  private rebaseRotation(rotation: RotationTracker, pointers: RecognizerInput['pointers']): void {
+    const [first, second] = pointers
+    const angle = getPointersAngle(pointers)
+    const offset = normalizeAngle(angle - rotation.previousAngle)
+
+    rotation.startAngle += offset
+    rotation.angle += offset
+    rotation.previousAngle = angle
+    rotation.centerX = (first.currentX + second.currentX) / 2
+    rotation.centerY = (first.currentY + second.currentY) / 2
+  }
+
+  /**
+   * Unwraps the current angle between the two pointers and dispatches the
+   * rotate events once the threshold is exceeded.
+   */
+  private updateRotation(rotation: RotationTracker, pointers: RecognizerInput['pointers']): void {
+    const [first, second] = pointers
+    const rawAngle = getPointersAngle(pointers)
+    rotation.angle += normalizeAngle(rawAngle - rotation.previousAngle)
+    rotation.previousAngle = rawAngle
+    rotation.centerX = (first.currentX + second.currentX) / 2
+    rotation.centerY = (first.currentY + second.currentY) / 2
+
+    if (this.state === RecognizerState.POSSIBLE) {
+      const rotateConfig = this.context.config.rotate
+      const rotateThreshold = rotateConfig?.threshold ?? 10
+
+      if (Math.abs(rotation.angle - rotation.startAngle) < rotateThreshold) {
+        return
+      }
+
+      this.setState(RecognizerState.BEGAN)
+      const detail = this.getRotationDetail(rotation)
+      this.emit('rotatestart', detail)
+      this.emit('rotatemove', detail)
+    } else {
+      this.setState(RecognizerState.CHANGED)
+      this.emit('rotatemove', this.getRotationDetail(rotation))
+    }
+
+    rotation.lastRotation = rotation.angle - rotation.startAngle
+  }
+
+  private getRotationDetail(rotation: RotationTracker): RotateEventDetail {
+    const current = rotation.angle - rotation.startAngle
+
+    return {
+      x: rotation.centerX,
+      y: rotation.centerY,
+      pointerType: rotation.pointerType,
+      pointerCount: 2,
+      rotation: current,
+      deltaRotation: current - rotation.lastRotation,
+      angle: rotation.angle,
+      startAngle: rotation.startAngle,
+      centerX: rotation.centerX,
+      centerY: rotation.centerY,
+    }
+  }
+}
@@ -0,0 +1,114 @@
+import { BaseRecognizer } from '../recognizer'
+import { type RecognizerInput, RecognizerState, type SwipeDirection } from '../types'
+import { getDistance, getVelocity } from '../utils'
+
+/**
+ * Recognizes pointers released while moving fast enough.
+ */
+export class SwipeRecognizer extends BaseRecognizer {
+  readonly name = 'swipe'
+  readonly events = ['swipe'] as const
+
+  get pointers(): number {
+    return this.context.config.swipe?.pointers ?? 1
+  }
+
+  process(input: RecognizerInput): void {
+    const group = input.group
+
+    switch (input.phase) {
+      case 'down':
+        if (input.pointers.length > this.pointers) {
+          this.setState(RecognizerState.FAILED)
+        }
+        break
+
+      case 'up': {
+        // A swipe releases a pan, and goes along with its refusal
+        if (this.context.getState('pan') === RecognizerState.CANCELED) {
+          this.setState(RecognizerState.FAILED)
+          break
+        }
+
+        // Decided as soon as one of the pointers is released
+        const swipeConfig = this.context.config.swipe
+        const minSwipeVelocity = swipeConfig?.minVelocity ?? 0.3
+        const minSwipeDistance = swipeConfig?.minDistance ?? 30
+        const maxSwipeDuration = swipeConfig?.maxDuration ?? 300
+        const swipeVelocityMode = swipeConfig?.velocity ?? 'average'
+        const swipeVelocityWindow = swipeConfig?.velocityWindow ?? 100
+
+        const offsetX = group.currentX - group.startX
+        const offsetY = group.currentY - group.startY
+        const distance = getDistance(group.startX, group.startY, group.currentX, group.currentY)
+        const duration = input.time - group.startTime
+
+        let velocityX = offsetX / duration
+        let velocityY = offsetY / duration
+
+        if (swipeVelocityMode === 'release') {
+          ;[velocityX, velocityY] = getVelocity([input.pointer, ...input.pointers], swipeVelocityWindow, input.time)
+        }
+
+        const velocity = Math.sqrt(velocityX ** 2 + velocityY ** 2)
+
+        if (
+          group.size !== this.pointers ||
+          velocity < minSwipeVelocity ||
+          distance < minSwipeDistance ||
+          (swipeVelocityMode === 'average' && duration > maxSwipeDuration)
+        ) {
+          this.setState(RecognizerState.FAILED)
+          break
+        }
+
+        let direction: SwipeDirection | undefined
+
+        // The direction follows the flick itself when using the release velocity
+        const directionX = swipeVelocityMode === 'release' ? velocityX : offsetX
+        const directionY = swipeVelocityMode === 'release' ? velocityY : offsetY
+
+        if (Math.abs(directionX) > Math.abs(directionY)) {
+          direction = directionX > 0 ? 'right' : 'left'
+        } else {
+          direction = directionY > 0 ? 'down' : 'up'
+        }
+
+        if (!this.followsPanDirection(direction)) {
+          this.setState(RecognizerState.FAILED)
+          break
+        }
+
+        this.setState(RecognizerState.ENDED)
+
+        this.emit('swipe', {
+          x: group.currentX,
+          y: group.currentY,
+          pointerType: group.pointerType,
+          pointerCount: group.size,
+          velocityX: velocityX,
+          velocityY: velocityY,
+          velocity: velocity,
+          direction: direction,
+          distance: distance,
+        })
+        break
+      }
+    }
+  }
+
+  /**
+   * Whether the swipe goes along the direction of the pan, when both are made with the same number of pointers.
+   */
+  private followsPanDirection(direction: SwipeDirection): boolean {
+    const panConfig = this.context.config.pan
+    const panDirection = panConfig?.direction ?? 'all'
+
+    if (!this.context.isEnabled('pan') || (panConfig?.pointers ?? 1) !== this.pointers) {
+      return true
+    }
+
+    const horizontal = direction === 'left' || direction === 'right'
+    return panDirection === 'all' || (panDirection === 'horizontal') === horizontal
+  }
+}
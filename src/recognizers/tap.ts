@@ -0,0 +1,239 @@
+import { BaseRecognizer } from '../recognizer'
+import {
+  type GestuelleEventMap,
+  type PointerGroup,
+  type Recognizer,
+  type RecognizerInput,
+  RecognizerState,
+  type TapEventDetail,
+} from '../types'
+import { getDistance } from '../utils'
+
+interface TapSequence {
+  /** X coordinate of the last tap. */
+  x: number
+  /** Y coordinate of the last tap. */
+  y: number
+  /** Timestamp of the last tap pointerup. */
+  upTime: number
+  /** Number of taps chained so far. */
+  count: number
+  /** Number of pointers involved in each tap. */
+  pointerCount: number
+}
+
+/**
+ * Recognizes quick touches, counting the close ones made in a row.
+ */
+export class TapRecognizer extends BaseRecognizer {
+  readonly name: string = 'tap'
+  readonly events: readonly (keyof GestuelleEventMap)[] = ['tap']
+
+  // Taps made in a row so far, only tracked while multi-taps are enabled
+  protected tapSequence: TapSequence | null = null
+
+  get pointers(): number {
+    return this.context.config.tap?.pointers ?? 1
+  }
+
+  process(input: RecognizerInput): void {
+    const group = input.group
+
+    switch (input.phase) {
+      case 'down':
+        if (input.pointers.length === 1) {
+          this.continueTapSequence(input.pointer.currentX, input.pointer.currentY, input.time)
+        }
+
+        if (group.size > this.pointers) {
+          this.cancel()
+        }
+        break
+
+      case 'up': {
+        // Decided once all the pointers are released
+        if (input.pointers.length > 0) {
+          break
+        }
+
+        const tapConfig = this.context.config.tap
+        const maxTapDuration = tapConfig?.maxDuration ?? 250
+        const maxTapDistance = tapConfig?.maxDistance ?? 10
+
+        const duration = input.time - group.downTime
+        const distance = getDistance(group.startX, group.startY, group.currentX, group.currentY)
+
+        if (group.size === this.pointers && duration <= maxTapDuration && distance <= maxTapDistance) {
+          this.recognizeTap(group, this.chainTap(group, input.time))
+        } else {
+          this.cancel()
+        }
+        break
+      }
+    }
+  }
+
+  /**
+   * Fails the tap, ending the current tap sequence.
+   */
+  cancel(): void {
+    this.endTapSequence()
+    super.cancel()
+  }
+
+  canRecognizeWith(other: Recognizer): boolean {
+    return other.name === 'multiTap'
+  }
+
+  requiresFailureOf(other: Recognizer): boolean {
+    return other.name === 'multiTap' && (this.context.config.multiTap?.exclusive ?? false)
+  }
+
+  destroy(): void {
+    this.endTapSequence()
+  }
+
+  /**
+   * Dispatches the events of a tap, given its rank in the tap sequence.
+   */
+  protected recognizeTap(group: Readonly<PointerGroup>, tapCount: number): void {
+    this.setState(RecognizerState.ENDED)
+    this.emit('tap', this.getTapDetail(group, tapCount))
+  }
+
+  /**
+   * Called on the first pointerdown: keeps the tap sequence alive if the new
+   * pointer is close enough in time and space, otherwise ends it.
+   */
+  protected continueTapSequence(x: number, y: number, time: number): void {
+    if (!this.tapSequence) {
+      return
+    }
+
+    const multiTapConfig = this.context.config.multiTap
+    const maxInterval = multiTapConfig?.maxInterval ?? 300
+    const maxDistance = multiTapConfig?.maxDistance ?? 20
+
+    const interval = time - this.tapSequence.upTime
+    const distance = getDistance(this.tapSequence.x, this.tapSequence.y, x, y)
+
+    if (interval > maxInterval || distance > maxDistance) {
+      this.breakTapSequence()
+    }
+  }
+
+  /**
+   * Ends the tap sequence because the next tap is too late or too far.
+   */
+  protected breakTapSequence(): void {
+    this.endTapSequence()
+  }
+
+  protected endTapSequence(): void {
+    this.tapSequence = null
+  }
+
+  protected getTapDetail(group: Readonly<PointerGroup>, tapCount: number): TapEventDetail {
+    return {
+      x: group.currentX,
+      y: group.currentY,
+      pointerType: group.pointerType,
+      pointerCount: group.size,
+      tapCount: tapCount,
+    }
+  }
+
+  /**
+   * Chains the released pointers to the current tap sequence and returns the number of taps made in a row.
+   */
+  private chainTap(group: Readonly<PointerGroup>, time: number): number {
+    const multiTapConfig = this.context.config.multiTap
+    const requiredTaps = multiTapConfig?.taps ?? 2
+
+    // Taps made with a different number of pointers are not chained
+    const sequence = this.tapSequence?.pointerCount === group.size ? this.tapSequence : null
+    const tapCount = (sequence?.count ?? 0) + 1
+
+    // The sequence starts over once it is long enough to be a multi-tap
+    this.tapSequence = null
+
+    if (this.context.isEnabled('multiTap') && tapCount < requiredTaps) {
+      this.tapSequence = {
+        x: group.currentX,
+        y: group.currentY,
+        upTime: time,
+        count: tapCount,
+        pointerCount: group.size,
+      }
+    }
+
+    return tapCount
+  }
+}
+
+/**
+ * Recognizes several taps made in a row, failing once the tap sequence is over.
+ */
+export class MultiTapRecognizer extends TapRecognizer {
+  readonly name: string = 'multiTap'
+  readonly events: readonly (keyof GestuelleEventMap)[] = ['doubletap']
+
+  private cancelTapTimeout: (() => void) | null = null
+
+  canRecognizeWith(other: Recognizer): boolean {
+    return other.name === 'tap'
+  }
+
+  requiresFailureOf(): boolean {
+    return false
+  }
+
+  protected recognizeTap(group: Readonly<PointerGroup>, tapCount: number): void {
+    const multiTapConfig = this.context.config.multiTap
+    const requiredTaps = multiTapConfig?.taps ?? 2
+    const maxInterval = multiTapConfig?.maxInterval ?? 300
+
+    if (tapCount >= requiredTaps) {
+      this.setState(RecognizerState.ENDED)
+      this.emit('doubletap', this.getTapDetail(group, tapCount))
+      return
+    }
+
+    // Waits for the next tap of the sequence
+    this.cancelTapTimeout = this.context.clock.setTimeout(this.onTapTimeout, maxInterval)
+  }
+
+  protected continueTapSequence(x: number, y: number, time: number): void {
+    this.clearTapTimeout()
+    super.continueTapSequence(x, y, time)
+  }
+
+  /**
+   * Fails the sequence so far, then starts a new one with the current tap.
+   */
+  protected breakTapSequence(): void {
+    super.breakTapSequence()
+    this.setState(RecognizerState.FAILED)
+    this.reset()
+  }
+
+  protected endTapSequence(): void {
+    this.clearTapTimeout()
+    super.endTapSequence()
+  }
+
+  private onTapTimeout = (): void => {
+    this.cancelTapTimeout = null
+    this.cancel()
+  }
+
+  /**
+   * Clears the multi-tap timeout if it's active.
+   */
+  private clearTapTimeout(): void {
+    if (this.cancelTapTimeout !== null) {
+      this.cancelTapTimeout()
+      this.cancelTapTimeout = null
+    }
+  }
+}
@@ -0,0 +1,96 @@
+import type { VirtualClock } from './clock'
+import type { GestuelleCore } from './core'
+import type {
+  Clock,
+  GestureRecorder,
+  GestureRecording,
+  PointerSample,
+  RecordedGestureEvent,
+  ReplayOptions,
+} from './types'
+
+/**
+ * Version of the recordings made by `recordGestures`.
+ */
+const RECORDING_VERSION = 1
+
+/**
+ * Starts recording the pointer samples fed to the instance, or core, and the gesture events they result in.
+ */
+export function recordGestures(target: Pick<GestuelleCore, 'config' | 'clock' | 'observe'>): GestureRecorder {
+  const clock = target.clock
+  const startTime = clock.now()
+
+  // The signal cannot be cloned, and means nothing once replayed
+  const { signal: _signal, ...recordedConfig } = target.config
+  const config = structuredClone(recordedConfig)
+  const samples: PointerSample[] = []
+  const events: RecordedGestureEvent[] = []
+
+  const unobserve = target.observe({
+    onSample: (sample) => {
+      samples.push({ ...sample, time: sample.time - startTime })
+    },
+    onEvent: (type, detail, time) => {
+      events.push({ type: type, time: time - startTime, detail: { ...detail } })
+    },
+  })
+
+  return {
+    stop: () => {
+      unobserve()
+
+      return {
+        version: RECORDING_VERSION,
+        config: config,
+        samples: [...samples],
+        events: [...events],
+        duration: clock.now() - startTime,
+      }
+    },
+  }
+}
+
+/**
+ * Feeds the samples of a recording to the instance, or core, spaced out as they were recorded,
+ * and resolves once the duration of the recording has elapsed. Replaying instantly requires
+ * the target to run on a virtual clock, the events then being the same on every replay.
+ */
+export async function replayGestures(
+  recording: GestureRecording,
+  target: Pick<GestuelleCore, 'clock' | 'process'>,
+  options: ReplayOptions = {},
+): Promise<void> {
+  if (recording.version !== RECORDING_VERSION) {
+    throw new Error(`Unsupported recording version ${recording.version}`)
+  }
+
+  const clock = target.clock
+
+  if (options.instant && !isVirtualClock(clock)) {
+    throw new Error('Replaying instantly requires the target to run on a virtual clock')
+  }
+
+  const startTime = clock.now()
+
+  const waitUntil = async (time: number): Promise<void> => {
+    const delay = Math.max(0, startTime + time - clock.now())
+
+    if (isVirtualClock(clock) && options.instant) {
+      clock.advance(delay)
+    } else if (delay > 0) {
+      await new Promise<void>((resolve) => clock.setTimeout(resolve, delay))
+    }
+  }
+
+  for (const sample of recording.samples) {
+    await waitUntil(sample.time)
+    target.process({ ...sample, time: clock.now() })
+  }
+
+  await waitUntil(recording.duration)
+}
+
+function isVirtualClock(clock: Clock): clock is VirtualClock {
+  return 'advance' in clock
+}
@@ -0,0 +1,228 @@
+import type { PointerType, SwipeDirection } from './types'
+
+/**
+ * Options shared by the gesture simulations.
+ */
+export interface SimulateOptions {
+  /** X coordinate the gesture starts at, the center of the element by default. */
+  x?: number
+  /** Y coordinate the gesture starts at, the center of the element by default. */
+  y?: number
+  /** Type of the simulated pointers (default: 'touch'). */
+  pointerType?: PointerType
+  /** Time between two movements of the pointers (default: 16ms). */
+  interval?: number
+  /**
+   * Advances the fake timers while the simulation waits, e.g. `vi.advanceTimersByTime`.
+   * Required when fake timers are installed, the simulation waiting forever otherwise.
+   */
+  advanceTimers?: (delay: number) => unknown
+}
+
+interface SimulatedPointer {
+  id: number
+  x: number
+  y: number
+}
+
+// Ids of the simulated pointers, unique across the simulations
+let nextPointerId = 1
+
+/**
+ * Adds the pointer capture methods jsdom is missing, keeping track of the pointers captured by each element.
+ */
+export function polyfillPointerCapture(): void {
+  const prototype = window.HTMLElement.prototype
+
+  if (typeof prototype.setPointerCapture === 'function') {
+    return
+  }
+
+  const capturedPointers = new WeakMap<Element, Set<number>>()
+
+  prototype.setPointerCapture = function (pointerId) {
+    const pointers = capturedPointers.get(this) ?? new Set()
+    pointers.add(pointerId)
+    capturedPointers.set(this, pointers)
+  }
+
+  prototype.releasePointerCapture = function (pointerId) {
+    capturedPointers.get(this)?.delete(pointerId)
+  }
+
+  prototype.hasPointerCapture = function (pointerId) {
+    return capturedPointers.get(this)?.has(pointerId) ?? false
+  }
+}
+
+/**
+ * Taps the element with the given number of pointers, held for the given duration (default: 50ms).
+ */
+export async function simulateTap(
+  element: Element,
+  options: SimulateOptions & { pointers?: number; duration?: number } = {},
+): Promise<void> {
+  const [x, y] = getStartPoint(element, options)
+  const pointers = Array.from({ length: options.pointers ?? 1 }, (_, index) => createPointer(x + index * 20, y))
+
+  pointers.forEach((pointer) => dispatchPointerEvent(element, 'pointerdown', pointer, options))
+  await wait(options.duration ?? 50, options)
+  pointers.forEach((pointer) => dispatchPointerEvent(element, 'pointerup', pointer, options))
+}
+
+/**
+ * Holds a pointer down on the element for the given duration.
+ */
+export async function simulatePress(element: Element, duration: number, options: SimulateOptions = {}): Promise<void> {
+  const [x, y] = getStartPoint(element, options)
+  const pointer = createPointer(x, y)
+
+  dispatchPointerEvent(element, 'pointerdown', pointer, options)
+  await wait(duration, options)
+  dispatchPointerEvent(element, 'pointerup', pointer, options)
+}
+
+/**
+ * Drags a pointer along the given points, relative to the start point, one movement per interval.
+ */
+export async function simulatePan(
+  element: Element,
+  path: readonly (readonly [number, number])[],
+  options: SimulateOptions = {},
+): Promise<void> {
+  const [x, y] = getStartPoint(element, options)
+  const pointer = createPointer(x, y)
+
+  dispatchPointerEvent(element, 'pointerdown', pointer, options)
+
+  for (const [offsetX, offsetY] of path) {
+    await wait(options.interval ?? 16, options)
+    pointer.x = x + offsetX
+    pointer.y = y + offsetY
+    dispatchPointerEvent(element, 'pointermove', pointer, options)
+  }
+
+  dispatchPointerEvent(element, 'pointerup', pointer, options)
+}
+
+/**
+ * Flicks a pointer in the given direction at the given velocity (in px/ms), over the given distance (default: 100px).
+ * The timers of the environment fire late, slowing the swipe down: use fake timers and `advanceTimers`
+ * for the exact velocity.
+ */
+export async function simulateSwipe(
+  element: Element,
+  direction: SwipeDirection,
+  velocity: number,
+  options: SimulateOptions & { distance?: number } = {},
+): Promise<void> {
+  if (!(velocity > 0 && Number.isFinite(velocity))) {
+    throw new RangeError(`The velocity of a swipe must be positive and finite, got ${velocity}`)
+  }
+
+  const distance = options.distance ?? 100
+  const interval = options.interval ?? 16
+  const steps = Math.max(1, Math.ceil(distance / velocity / interval))
+
+  const [directionX, directionY] = {
+    left: [-1, 0],
+    right: [1, 0],
+    up: [0, -1],
+    down: [0, 1],
+  }[direction]
+
+  const path = Array.from({ length: steps }, (_, index): [number, number] => {
+    const offset = (distance * (index + 1)) / steps
+    return [directionX * offset, directionY * offset]
+  })
+
+  // The movement is spread evenly over the steps so the pointer moves at the requested velocity
+  await simulatePan(element, path, { ...options, interval: distance / velocity / steps })
+}
+
+/**
+ * Moves two pointers around the start point until they are scaled by the given factor
+ * and turned by the given angle (in deg), starting the given distance apart (default: 100px).
+ */
+export async function simulatePinch(
+  element: Element,
+  scale: number,
+  rotation = 0,
+  options: SimulateOptions & { distance?: number; steps?: number } = {},
+): Promise<void> {
+  const [x, y] = getStartPoint(element, options)
+  const distance = options.distance ?? 100
+  const steps = options.steps ?? 10
+
+  const getPosition = (progress: number, side: 1 | -1): [number, number] => {
+    const radius = (distance / 2) * (1 + (scale - 1) * progress) * side
+    const angle = (rotation * progress * Math.PI) / 180
+    return [x + radius * Math.cos(angle), y + radius * Math.sin(angle)]
+  }
+
+  const first = createPointer(...getPosition(0, -1))
+  const second = createPointer(...getPosition(0, 1))
+
+  dispatchPointerEvent(element, 'pointerdown', first, options)
+  dispatchPointerEvent(element, 'pointerdown', second, options)
+
+  for (let step = 1; step <= steps; step++) {
+    await wait(options.interval ?? 16, options)
+    ;[first.x, first.y] = getPosition(step / steps, -1)
+    ;[second.x, second.y] = getPosition(step / steps, 1)
+    dispatchPointerEvent(element, 'pointermove', first, options)
+    dispatchPointerEvent(element, 'pointermove', second, options)
+  }
+
+  dispatchPointerEvent(element, 'pointerup', first, options)
+  dispatchPointerEvent(element, 'pointerup', second, options)
+}
+
+function createPointer(x: number, y: number): SimulatedPointer {
+  return { id: nextPointerId++, x: x, y: y }
+}
+
+/**
+ * Returns the point the gesture starts at, the center of the element unless given.
+ */
+function getStartPoint(element: Element, options: SimulateOptions): [number, number] {
+  const rect = element.getBoundingClientRect()
+  return [options.x ?? rect.left + rect.width / 2, options.y ?? rect.top + rect.height / 2]
+}
+
+/**
+ * Dispatches a pointer event, made from a mouse event where `PointerEvent` is missing like in jsdom.
+ */
+function dispatchPointerEvent(
+  element: Element,
+  type: string,
+  pointer: SimulatedPointer,
+  options: SimulateOptions,
+): void {
+  polyfillPointerCapture()
+
+  const init: PointerEventInit = {
+    bubbles: true,
+    cancelable: true,
+    composed: true,
+    clientX: pointer.x,
+    clientY: pointer.y,
+    pointerId: pointer.id,
+    pointerType: options.pointerType ?? 'touch',
+    buttons: type === 'pointerup' ? 0 : 1,
+  }
+
+  const event =
+    typeof PointerEvent === 'function'
+      ? new PointerEvent(type, init)
+      : Object.assign(new MouseEvent(type, init), { pointerId: init.pointerId, pointerType: init.pointerType })
+
+  element.dispatchEvent(event)
+}
+
+/**
+ * Waits for the given delay, advancing the fake timers if needed.
+ */
+async function wait(delay: number, options: SimulateOptions): Promise<void> {
+  await Promise.all([new Promise((resolve) => setTimeout(resolve, delay)), options.advanceTimers?.(delay)])
+}
@@ -0,0 +1,310 @@
+import { getElementMatrix } from './coordinates'
+import type { Gestuelle } from './gestuelle'
+import type {
+  PanEventDetail,
+  PinchEventDetail,
+  RotateEventDetail,
+  Transform,
+  TransformControllerOptions,
+  TransformMatrix,
+} from './types'
+import { deg2rad, invertMatrix, type Matrix, transformPoint } from './utils'
+
+// Events after which the limits are reached
+const GESTURE_END_EVENTS = [
+  'panend',
+  'pancancel',
+  'swipe',
+  'paninertiaend',
+  'pinchend',
+  'pinchcancel',
+  'rotateend',
+  'rotatecancel',
+] as const
+
+/**
+ * Accumulates the pan, pinch and rotate gestures of an instance into a transform, e.g. for an image viewer.
+ * Pinching and rotating move the target around the center of the pointers, and the limits resist
+ * the gestures going beyond them before being reached once the gestures are over.
+ */
+class TransformController {
+  readonly target: HTMLElement
+
+  private element: HTMLElement
+  private options: TransformControllerOptions
+
+  private current: Transform = { x: 0, y: 0, scale: 1, rotation: 0 }
+
+  // Point the last gesture was centered on, relative to the parent of the target
+  private focalX = 0
+  private focalY = 0
+
+  // Center of the ongoing pinch or rotation, the target following the pointers moving together
+  private center: [number, number] | null = null
+
+  constructor(instance: Pick<Gestuelle, 'element'>, options: TransformControllerOptions) {
+    this.element = instance.element
+    this.target = options.target ?? instance.element
+    this.options = options
+
+    this.addEventListeners()
+  }
+
+  /**
+   * The current transform.
+   */
+  get transform(): Readonly<Transform> {
+    return { ...this.current }
+  }
+
+  /**
+   * The matrix of the current transform.
+   */
+  get matrix(): TransformMatrix {
+    const [a, b, c, d, e, f] = this.getMatrix()
+    return { a: a, b: b, c: c, d: d, e: e, f: f }
+  }
+
+  /**
+   * Changes the transform, within the limits.
+   */
+  public setTransform(transform: Partial<Transform>): void {
+    const { minScale = 0, maxScale = Number.POSITIVE_INFINITY } = this.options
+    const next = { ...this.current, ...transform }
+
+    next.scale = Math.min(Math.max(next.scale, minScale), maxScale)
+    ;[next.x, next.y] = this.clampTranslation(next.x, next.y)
+
+    this.current = next
+    this.commit()
+  }
+
+  /**
+   * Puts back the identity transform.
+   */
+  public reset(): void {
+    this.setTransform({ x: 0, y: 0, scale: 1, rotation: 0 })
+  }
+
+  /**
+   * Stops following the gestures, leaving the target as is.
+   */
+  public destroy(): void {
+    this.removeEventListeners()
+  }
+
+  private addEventListeners(): void {
+    this.element.addEventListener('panstart', this.onPan)
+    this.element.addEventListener('panmove', this.onPan)
+    this.element.addEventListener('paninertia', this.onPan)
+    this.element.addEventListener('pinchstart', this.onPinchStart)
+    this.element.addEventListener('pinchmove', this.onPinchMove)
+    this.element.addEventListener('rotatestart', this.onRotateStart)
+    this.element.addEventListener('rotatemove', this.onRotateMove)
+
+    for (const type of GESTURE_END_EVENTS) {
+      this.element.addEventListener(type, this.onGestureEnd)
+    }
+  }
+
+  private removeEventListeners(): void {
+    this.element.removeEventListener('panstart', this.onPan)
+    this.element.removeEventListener('panmove', this.onPan)
+    this.element.removeEventListener('paninertia', this.onPan)
+    this.element.removeEventListener('pinchstart', this.onPinchStart)
+    this.element.removeEventListener('pinchmove', this.onPinchMove)
+    this.element.removeEventListener('rotatestart', this.onRotateStart)
+    this.element.removeEventListener('rotatemove', this.onRotateMove)
+
+    for (const type of GESTURE_END_EVENTS) {
+      this.element.removeEventListener(type, this.onGestureEnd)
+    }
+  }
+
+  // The start of the pan already moves, by the movement that crossed the threshold or the first scroll
+  private onPan = (event: CustomEvent<PanEventDetail>): void => {
+    this.translate(event.detail.deltaX, event.detail.deltaY)
+  }
+
+  private onPinchStart = (event: CustomEvent<PinchEventDetail>): void => {
+    const { centerX, centerY, offsetX, offsetY } = event.detail
+    this.center ??= [centerX - offsetX, centerY - offsetY]
+  }
+
+  private onPinchMove = (event: CustomEvent<PinchEventDetail>): void => {
+    const { centerX, centerY, deltaScale } = event.detail
+
+    this.followCenter(centerX, centerY)
+    this.zoom(centerX, centerY, deltaScale, 0)
+  }
+
+  private onRotateStart = (event: CustomEvent<RotateEventDetail>): void => {
+    this.center ??= [event.detail.centerX, event.detail.centerY]
+  }
+
+  private onRotateMove = (event: CustomEvent<RotateEventDetail>): void => {
+    const { centerX, centerY, deltaRotation } = event.detail
+
+    this.followCenter(centerX, centerY)
+    this.zoom(centerX, centerY, 1, deltaRotation)
+  }
+
+  private onGestureEnd = (): void => {
+    this.center = null
+    this.settle()
+  }
+
+  /**
+   * Moves the target along with the center of the pointers.
+   */
+  private followCenter(centerX: number, centerY: number): void {
+    if (this.center) {
+      this.translate(centerX - this.center[0], centerY - this.center[1])
+    }
+
+    this.center = [centerX, centerY]
+  }
+
+  /**
+   * Moves the target by the given delta, resisted beyond the bounds.
+   */
+  private translate(deltaX: number, deltaY: number): void {
+    const { minX, maxX, minY, maxY } = this.getBounds()
+
+    this.current.x = this.resist(this.current.x, deltaX, minX, maxX)
+    this.current.y = this.resist(this.current.y, deltaY, minY, maxY)
+    this.commit()
+  }
+
+  /**
+   * Scales and turns the target around the given point of the viewport, the scale being resisted beyond its limits.
+   */
+  private zoom(clientX: number, clientY: number, deltaScale: number, deltaRotation: number): void {
+    const { minScale = 0, maxScale = Number.POSITIVE_INFINITY } = this.options
+    const current = this.current
+
+    // The scale is resisted proportionally, so zooming in and out feel the same
+    const scale = Math.exp(
+      this.resist(Math.log(current.scale), Math.log(deltaScale), Math.log(minScale), Math.log(maxScale)),
+    )
+
+    ;[this.focalX, this.focalY] = this.toParentPoint(clientX, clientY)
+    this.turn(scale / current.scale, deltaRotation)
+    current.scale = scale
+    current.rotation += deltaRotation
+    this.commit()
+  }
+
+  /**
+   * Reaches the limits once the gestures are over.
+   */
+  private settle(): void {
+    const { minScale = 0, maxScale = Number.POSITIVE_INFINITY } = this.options
+    const current = this.current
+    const previous = { ...current }
+    const scale = Math.min(Math.max(current.scale, minScale), maxScale)
+
+    // The scale comes back around the point the last gesture was centered on
+    this.turn(scale / current.scale, 0)
+    current.scale = scale
+    ;[current.x, current.y] = this.clampTranslation(current.x, current.y)
+
+    if (current.x !== previous.x || current.y !== previous.y || current.scale !== previous.scale) {
+      this.commit()
+    }
+  }
+
+  /**
+   * Moves the translation so the focal point stays in place while the target is scaled and turned.
+   */
+  private turn(deltaScale: number, deltaRotation: number): void {
+    const angle = deg2rad(deltaRotation)
+    const offsetX = this.current.x - this.focalX
+    const offsetY = this.current.y - this.focalY
+
+    this.current.x = this.focalX + deltaScale * (Math.cos(angle) * offsetX - Math.sin(angle) * offsetY)
+    this.current.y = this.focalY + deltaScale * (Math.sin(angle) * offsetX + Math.cos(angle) * offsetY)
+  }
+
+  /**
+   * Moves the value by the delta, keeping only a fraction of the movement going further beyond the limits.
+   */
+  private resist(value: number, delta: number, min: number, max: number): number {
+    const rubberBand = this.options.rubberBand ?? 0.3
+    const next = value + delta
+
+    if (next > max && delta > 0) {
+      const limit = Math.max(value, max)
+      return limit + (next - limit) * rubberBand
+    }
+
+    if (next < min && delta < 0) {
+      const limit = Math.min(value, min)
+      return limit + (next - limit) * rubberBand
+    }
+
+    return next
+  }
+
+  private clampTranslation(x: number, y: number): [number, number] {
+    const { minX, maxX, minY, maxY } = this.getBounds()
+    return [Math.min(Math.max(x, minX), maxX), Math.min(Math.max(y, minY), maxY)]
+  }
+
+  private getBounds(): { minX: number; maxX: number; minY: number; maxY: number } {
+    const bounds = this.options.bounds ?? {}
+
+    return {
+      minX: bounds.minX ?? Number.NEGATIVE_INFINITY,
+      maxX: bounds.maxX ?? Number.POSITIVE_INFINITY,
+      minY: bounds.minY ?? Number.NEGATIVE_INFINITY,
+      maxY: bounds.maxY ?? Number.POSITIVE_INFINITY,
+    }
+  }
+
+  /**
+   * Converts a point of the viewport into the coordinates of the parent of the target, where the transform applies.
+   */
+  private toParentPoint(clientX: number, clientY: number): [number, number] {
+    const inverse = invertMatrix(getElementMatrix(this.target))
+
+    if (!inverse) {
+      return [clientX, clientY]
+    }
+
+    const [localX, localY] = transformPoint(inverse, clientX, clientY)
+    return transformPoint(this.getMatrix(), localX, localY)
+  }
+
+  private getMatrix(): Matrix {
+    const { x, y, scale, rotation } = this.current
+    const cos = Math.cos(deg2rad(rotation)) * scale
+    const sin = Math.sin(deg2rad(rotation)) * scale
+
+    // Subtracted from zero rather than negated, so no rotation gives 0 rather than -0
+    return [cos, sin, 0 - sin, cos, x, y]
+  }
+
+  /**
+   * Applies the transform to the target if required and dispatches 'transformchange' from it.
+   */
+  private commit(): void {
+    const matrix = this.matrix
+
+    if (this.options.applyStyle) {
+      this.target.style.transformOrigin = '0 0'
+      this.target.style.transform = `matrix(${matrix.a}, ${matrix.b}, ${matrix.c}, ${matrix.d}, ${matrix.e}, ${matrix.f})`
+    }
+
+    this.target.dispatchEvent(new CustomEvent('transformchange', { detail: { ...this.current, matrix: matrix } }))
+  }
+}
+
+export function createTransformController(
+  instance: Pick<Gestuelle, 'element'>,
+  options?: TransformControllerOptions,
+): TransformController {
+  return new TransformController(instance, options ?? {})
+}
+
+export type { TransformController }
@@ -1,8 +1,35 @@
+import type { PositionSample, RingBuffer } from './utils'
+
 export type PointerType = 'mouse' | 'touch' | 'pen' | string
 
 /**
- * Defines the states of our gesture recognition FSM.
- * This helps prevent conflicting gestures from being recognized simultaneously.
+ * Space the coordinates of the gesture events are reported in: relative to the viewport, to the document,
+ * or to the element the gesture is recognized on, through its transform when the gesture started.
+ */
+export type CoordinateSpace = 'viewport' | 'page' | 'element'
+
+/**
+ * Defines the states of a gesture recognizer.
+ * The recognizers are arbitrated through them to prevent conflicting gestures from being recognized simultaneously.
+ */
+export enum RecognizerState {
+  /** The gesture might still be recognized from the upcoming input. */
+  POSSIBLE = 'POSSIBLE',
+  /** The continuous gesture has started. */
+  BEGAN = 'BEGAN',
+  /** The continuous gesture goes on. */
+  CHANGED = 'CHANGED',
+  /** The continuous gesture is over, or the discrete gesture has been recognized. */
+  ENDED = 'ENDED',
+  /** The gesture has been interrupted, along with the ones it conflicts with. */
+  CANCELED = 'CANCELED',
+  /** The input is not this gesture, the others may be recognized instead. */
+  FAILED = 'FAILED',
+}
+
+/**
+ * Former states of the gesture recognition, before the gestures were split into recognizers.
+ * @deprecated Each recognizer has its own state, use `RecognizerState` instead.
  */
 export enum GestureState {
   IDLE = 'IDLE',
@@ -12,16 +39,38 @@ export enum GestureState {
   PANNING = 'PANNING',
   SWIPING = 'SWIPING',
   PINCHING = 'PINCHING',
+  ROTATING = 'ROTATING',
   CANCELED = 'CANCELED',
+  ENDED = 'ENDED',
 }
 
-interface GestureEventDetail {
-  /** The current X coordinate of the primary pointer relative to the viewport. */
+export interface GestureEventDetail {
+  /** The current X coordinate of the primary pointer relative to the viewport, or the configured coordinate space. */
   x: number
-  /** The current Y coordinate of the primary pointer relative to the viewport. */
+  /** The current Y coordinate of the primary pointer relative to the viewport, or the configured coordinate space. */
   y: number
   /** The type of pointer that triggered the event (e.g., "mouse", "touch", "pen"). */
   pointerType: PointerType
+  /** The number of pointers involved in the gesture. */
+  pointerCount: number
+  /** The element the gesture was recognized on, the matching descendant in delegated mode. Set by the instance. */
+  target?: HTMLElement
+  /** The X coordinate of the pointer in the target, as transformed at the gesture start. Set by the instance. */
+  localX?: number
+  /** The Y coordinate of the pointer in the target, as transformed at the gesture start. Set by the instance. */
+  localY?: number
+  /** The button the gesture started with (see `PointerEvent.button`), 0 for the main button, a touch or a pen tip. */
+  button?: number
+  /** The buttons currently down, as a bitmask (see `PointerEvent.buttons`). */
+  buttons?: number
+  /** Whether the shift key is held. */
+  shiftKey?: boolean
+  /** Whether the control key is held. */
+  ctrlKey?: boolean
+  /** Whether the alt key is held. */
+  altKey?: boolean
+  /** Whether the meta key is held. */
+  metaKey?: boolean
 }
 
 /**
@@ -36,12 +85,24 @@ export interface PanEventDetail extends GestureEventDetail {
   offsetX: number
   /** The total change in Y coordinate from the pan start point. */
   offsetY: number
+  /** The current velocity in pixels per millisecond along the X axis. */
+  velocityX: number
+  /** The current velocity in pixels per millisecond along the Y axis. */
+  velocityY: number
 }
 
+/**
+ * Defines the detailed data provided with pan inertia events.
+ */
+export interface PanInertiaEventDetail extends PanEventDetail {}
+
 /**
  * Defines the detailed data provided with tap gesture events.
  */
-export interface TapEventDetail extends GestureEventDetail {}
+export interface TapEventDetail extends GestureEventDetail {
+  /** The number of consecutive taps in the current sequence (1 for a single tap, 2 for a double tap...). */
+  tapCount: number
+}
 
 /**
  * Defines the detailed data provided with press gesture events.
@@ -52,13 +113,39 @@ export interface PressEventDetail extends GestureEventDetail {
 }
 
 /**
- * Defines the detailed data provided with press gesture events.
+ * Defines the detailed data provided with pinch gesture events.
  */
 export interface PinchEventDetail extends GestureEventDetail {
   /** The distance between the two pointers. */
   distance: number
   /** The angle between the two pointers (in deg). */
   angle: number
+  /** The current center X coordinate between the two pointers. */
+  centerX: number
+  /** The current center Y coordinate between the two pointers. */
+  centerY: number
+  /** The total change in X coordinate of the center since the two pointers went down. */
+  offsetX: number
+  /** The total change in Y coordinate of the center since the two pointers went down. */
+  offsetY: number
+  /** The current distance divided by the distance when the two pointers went down. */
+  scale: number
+  /** The scale change since the last pinch event, as a factor (current scale / previous scale). */
+  deltaScale: number
+}
+
+/**
+ * Defines the detailed data provided with rotate gesture events.
+ */
+export interface RotateEventDetail extends GestureEventDetail {
+  /** The cumulative rotation (in deg) since the two pointers went down. */
+  rotation: number
+  /** The change in rotation (in deg) since the last rotate event. */
+  deltaRotation: number
+  /** The current angle between the two pointers (in deg), unwrapped so it does not jump at ±180. */
+  angle: number
+  /** The angle between the two pointers (in deg) when they went down. */
+  startAngle: number
   /** The center X coordinate between the two pointers. */
   centerX: number
   /** The center Y coordinate between the two pointers. */
@@ -83,21 +170,121 @@ export interface SwipeEventDetail extends GestureEventDetail {
 
 export type SwipeDirection = 'up' | 'down' | 'left' | 'right'
 
+/**
+ * Options shared by the configuration of every gesture.
+ */
+export interface GestureConfig {
+  /**
+   * Whether the gesture is recognized, can be toggled at runtime with `enable` and `disable`.
+   * @default true
+   */
+  enabled?: boolean
+  /**
+   * Gestures that must fail before this one is recognized, its events being held until then.
+   * The gesture fails if one of them is recognized instead, e.g. `tap: { requireFailureOf: ['multiTap'] }`.
+   */
+  requireFailureOf?: string[]
+  /**
+   * Gestures that can be recognized at the same time as this one, e.g. `pinch: { allowSimultaneous: ['pan'] }`.
+   * The relationship goes both ways.
+   */
+  allowSimultaneous?: string[]
+  /**
+   * Gestures with a higher priority are fed the input first, and cannot be interrupted by the ones with a lower priority.
+   * @default 0
+   */
+  priority?: number
+  /**
+   * The types of pointers the gesture can be made with, e.g. `['touch']` so a pen does not pinch along a finger.
+   * Any type by default.
+   */
+  pointerTypes?: PointerType[]
+  /**
+   * The buttons the gesture can be started with (see `PointerEvent.button`), e.g. `[0]` so a right-click does not pan.
+   * Any button by default.
+   */
+  buttons?: number[]
+  /**
+   * The modifier keys that must be held when the pointers go down.
+   */
+  modifierKeys?: ModifierKey[]
+}
+
+/**
+ * A modifier key a gesture can require.
+ */
+export type ModifierKey = 'shift' | 'ctrl' | 'alt' | 'meta'
+
 /**
  * Configuration options for the pan gesture.
  */
-export interface PanGestureConfig {
+export interface PanGestureConfig extends GestureConfig {
   /**
    * The minimum distance (in pixels) the pointer must move before 'panstart' fires.
    * @default 5
    */
   threshold?: number
+  /**
+   * The number of pointers required to pan.
+   * @default 1
+   */
+  pointers?: number
+  /**
+   * The direction the pan is allowed in, the gesture being declined if the pointers
+   * first move along the other axis.
+   * @default 'all'
+   */
+  direction?: PanDirection
+  /**
+   * Locks the pan on the axis of its initial movement, the other axis being zeroed afterwards.
+   * @default false
+   */
+  lockAxis?: boolean
+  /**
+   * The trailing duration (in milliseconds) of the pointer movement used to compute the pan velocity.
+   * @default 100
+   */
+  velocityWindow?: number
+  /**
+   * Keeps emitting 'paninertia' events with a decaying velocity after the pan ends.
+   * @default false
+   */
+  inertia?: boolean | PanInertiaConfig
+}
+
+export type PanDirection = 'horizontal' | 'vertical' | 'all'
+
+/**
+ * Configuration options for the pan inertia.
+ */
+export interface PanInertiaConfig {
+  /**
+   * The fraction of the velocity kept after each frame (of 16ms).
+   * @default 0.95
+   */
+  friction?: number
+  /**
+   * The velocity (pixels per millisecond) under which the inertia stops.
+   * @default 0.02
+   */
+  minVelocity?: number
+  /**
+   * The limits of the pan offset, the velocity drops on an axis that reaches them.
+   */
+  bounds?: PanInertiaBounds
+}
+
+export interface PanInertiaBounds {
+  minX?: number
+  maxX?: number
+  minY?: number
+  maxY?: number
 }
 
 /**
  * Configuration options for the tap gesture.
  */
-export interface TapGestureConfig {
+export interface TapGestureConfig extends GestureConfig {
   /**
    * The maximum duration (in milliseconds) between pointerdown and pointerup for a tap to be recognized.
    * @default 250
@@ -108,12 +295,44 @@ export interface TapGestureConfig {
    * @default 10
    */
   maxDistance?: number
+  /**
+   * The number of pointers required to tap.
+   * @default 1
+   */
+  pointers?: number
+}
+
+/**
+ * Configuration options for the multi-tap (double tap, triple tap...) gesture.
+ */
+export interface MultiTapGestureConfig extends GestureConfig {
+  /**
+   * The maximum delay (in milliseconds) between a pointerup and the next pointerdown for taps to be chained.
+   * @default 300
+   */
+  maxInterval?: number
+  /**
+   * The maximum distance (in pixels) between two consecutive taps for them to be chained.
+   * @default 20
+   */
+  maxDistance?: number
+  /**
+   * The number of taps required to dispatch 'doubletap'.
+   * @default 2
+   */
+  taps?: number
+  /**
+   * Delays 'tap' until the multi-tap window has expired, so 'tap' and 'doubletap' never fire for the same sequence.
+   * Shorthand for `tap: { requireFailureOf: ['multiTap'] }`.
+   * @default false
+   */
+  exclusive?: boolean
 }
 
 /**
  * Configuration options for the press (long press) gesture.
  */
-export interface PressGestureConfig {
+export interface PressGestureConfig extends GestureConfig {
   /**
    * The minimum duration (in milliseconds) the pointer must be held down for a press to be recognized.
    * @default 500
@@ -129,7 +348,7 @@ export interface PressGestureConfig {
 /**
  * Configuration options for the swipe gesture.
  */
-export interface SwipeGestureConfig {
+export interface SwipeGestureConfig extends GestureConfig {
   /**
    * The minimum velocity (pixels per millisecond) required for a swipe to be recognized.
    * @default 0.3
@@ -145,33 +364,188 @@ export interface SwipeGestureConfig {
    * @default 300
    */
   maxDuration?: number
+  /**
+   * The number of pointers required to swipe.
+   * @default 1
+   */
+  pointers?: number
+  /**
+   * How the swipe velocity is measured.
+   * - `average`: the total movement divided by the duration of the gesture.
+   * - `release`: the movement during the last `velocityWindow` milliseconds before release,
+   *   the direction following it and `maxDuration` being ignored.
+   * @default 'average'
+   */
+  velocity?: SwipeVelocityMode
+  /**
+   * The trailing duration (in milliseconds) of the pointer movement used by the `release` velocity.
+   * @default 100
+   */
+  velocityWindow?: number
 }
 
+export type SwipeVelocityMode = 'average' | 'release'
+
 /**
  * Configuration options for the pinch gesture.
  */
-interface PinchGestureConfig {
+export interface PinchGestureConfig extends GestureConfig {
   /**
-   * The minimum distance (in pixels) between the pointers to start a pinch.
+   * The minimum change in distance (in pixels) between the pointers to start a pinch.
    * @default 5
    */
   threshold?: number
+  /**
+   * What to do when a pointer goes down while the maximum number of pointers any gesture needs
+   * (two, unless a gesture is configured with more) are already active. Applies to rotate as well.
+   * - `ignore`: the extra pointer is not tracked.
+   * - `cancel`: the ongoing gestures are canceled until all the pointers are released.
+   * - `rebase`: the gestures go on with the newest two pointers.
+   * @default 'ignore'
+   */
+  extraPointers?: ExtraPointersPolicy
 }
 
+export type ExtraPointersPolicy = 'ignore' | 'cancel' | 'rebase'
+
 /**
- * Overall configuration for the Gestuelle library, specifying options for each gesture.
+ * Configuration options for the rotate gesture.
+ */
+export interface RotateGestureConfig extends GestureConfig {
+  /**
+   * The minimum rotation (in deg) between the pointers to start a rotation.
+   * @default 10
+   */
+  threshold?: number
+}
+
+/**
+ * Configuration options for the wheel and trackpad input.
  */
-export interface GestuelleConfig {
+export interface WheelConfig {
+  /**
+   * The scale change per pixel scrolled while holding `ctrl` (or pinching a trackpad).
+   * @default 0.01
+   */
+  zoomSpeed?: number
+  /**
+   * The time (in ms) without wheel events after which the pan or pinch ends.
+   * @default 150
+   */
+  endDelay?: number
+}
+
+/**
+ * Configuration options for the keyboard input.
+ */
+export interface KeyboardConfig {
+  /**
+   * The keys tapping, or pressing once held for the press duration (see `KeyboardEvent.key`).
+   * @default ['Enter', ' ']
+   */
+  tapKeys?: string[]
+  /**
+   * The keys pressing right away, until released.
+   * @default ['ContextMenu']
+   */
+  pressKeys?: string[]
+  /**
+   * The gesture of the arrow keys: moving by steps or swiping, `false` leaving them to the browser.
+   * @default 'pan'
+   */
+  arrows?: 'pan' | 'swipe' | false
+  /**
+   * The distance (in px) moved by each arrow key when panning.
+   * @default 10
+   */
+  panStep?: number
+  /**
+   * The keys zooming in, as pinching out.
+   * @default ['+', '=']
+   */
+  zoomInKeys?: string[]
+  /**
+   * The keys zooming out, as pinching in.
+   * @default ['-']
+   */
+  zoomOutKeys?: string[]
+  /**
+   * The scale change of each zoom key, as a factor.
+   * @default 1.25
+   */
+  zoomStep?: number
+}
+
+/**
+ * The options of each gesture, by name. Custom gestures are configured, and turned on and off, once declared in it.
+ */
+export interface GestureConfigMap {
   /** Configuration specific to the pan gesture. */
-  pan?: PanGestureConfig
+  pan: PanGestureConfig
   /** Configuration specific to the tap gesture. */
-  tap?: TapGestureConfig
+  tap: TapGestureConfig
+  /** Configuration specific to the multi-tap gesture. */
+  multiTap: MultiTapGestureConfig
   /** Configuration specific to the press (long press) gesture. */
-  press?: PressGestureConfig
+  press: PressGestureConfig
   /** Configuration specific to the swipe gesture. */
-  swipe?: SwipeGestureConfig
+  swipe: SwipeGestureConfig
   /** Configuration specific to the pinch gesture. */
-  pinch?: PinchGestureConfig
+  pinch: PinchGestureConfig
+  /** Configuration specific to the rotate gesture. */
+  rotate: RotateGestureConfig
+}
+
+/**
+ * The name of a gesture, built-in or declared in `GestureConfigMap`.
+ */
+export type GestureName = keyof GestureConfigMap
+
+/**
+ * Overall configuration for the Gestuelle library, specifying options for each gesture.
+ */
+export interface GestuelleConfig extends Partial<GestureConfigMap> {
+  /**
+   * The `touch-action` style applied to the element, restored on destroy.
+   * `true` computes it from the configured gestures, `false` leaves the element untouched.
+   * @default true
+   */
+  touchAction?: boolean | string
+  /**
+   * Lets the instances attached around the element recognize their gestures when one of this instance is
+   * declined (e.g. a pan along the wrong axis), instead of leaving the pointers to the browser.
+   * @default false
+   */
+  yieldToParent?: boolean
+  /**
+   * Recognizes the gestures on the descendants matching this selector rather than on the element itself,
+   * each descendant apart. The events are dispatched from the matching descendant and bubble up to the element.
+   */
+  delegate?: string
+  /**
+   * The space the positions, offsets, deltas and velocities of the gesture events are reported in.
+   * The `element` space follows the target through its transform when the gesture started, e.g. for a scaled
+   * or rotated element.
+   * @default 'viewport'
+   */
+  coordinateSpace?: CoordinateSpace
+  /**
+   * Recognizes the wheel and trackpad input: scrolling pans, scrolling while holding `ctrl` (as trackpads do
+   * when pinching) and the Safari `gesture` events pinch. The page does not scroll or zoom over the element then.
+   * @default false
+   */
+  wheel?: boolean | WheelConfig
+  /**
+   * Destroys the instance when aborted, e.g. when the component it belongs to is unmounted.
+   * Left out of the recordings made by `recordGestures`.
+   */
+  signal?: AbortSignal
+  /**
+   * Recognizes the keyboard input as gestures, for the users who cannot use a pointer. The element is made
+   * focusable and describes its keys to assistive technologies through `aria-keyshortcuts`.
+   * @default false
+   */
+  keyboard?: boolean | KeyboardConfig
 }
 
 export interface GestuelleEventMap {
@@ -179,7 +553,10 @@ export interface GestuelleEventMap {
   panmove: CustomEvent<PanEventDetail>
   panend: CustomEvent<PanEventDetail>
   pancancel: CustomEvent<PanEventDetail>
+  paninertia: CustomEvent<PanInertiaEventDetail>
+  paninertiaend: CustomEvent<PanInertiaEventDetail>
   tap: CustomEvent<TapEventDetail>
+  doubletap: CustomEvent<TapEventDetail>
   pressstart: CustomEvent<PressEventDetail>
   pressend: CustomEvent<PressEventDetail>
   presscancel: CustomEvent<PressEventDetail>
@@ -188,4 +565,315 @@ export interface GestuelleEventMap {
   pinchmove: CustomEvent<PinchEventDetail>
   pinchend: CustomEvent<PinchEventDetail>
   pinchcancel: CustomEvent<PinchEventDetail>
+  rotatestart: CustomEvent<RotateEventDetail>
+  rotatemove: CustomEvent<RotateEventDetail>
+  rotateend: CustomEvent<RotateEventDetail>
+  rotatecancel: CustomEvent<RotateEventDetail>
+}
+
+/**
+ * A pointer currently down on the element.
+ */
+export interface ActivePointer {
+  /** The unique ID of the pointer. */
+  id: number
+  /** Initial X coordinate when pointerdown occurred. */
+  startX: number
+  /** Initial Y coordinate when pointerdown occurred. */
+  startY: number
+  /** Current X coordinate. */
+  currentX: number
+  /** Current Y coordinate. */
+  currentY: number
+  /** Type of pointer (mouse, touch, pen). */
+  pointerType: PointerType
+  /** Timestamp of pointerdown for duration calculations. */
+  downTime: number
+  /** Recent positions of the pointer, for velocity calculations. */
+  samples: RingBuffer<PositionSample>
+}
+
+/**
+ * The movement of the active pointers as a whole, restarted every time a pointer goes down.
+ */
+export interface PointerGroup {
+  /** Largest number of pointers simultaneously down during the gesture. */
+  size: number
+  /** Timestamp of the first pointerdown of the gesture. */
+  downTime: number
+  /** Timestamp of the pointerdown that brought the group to its size. */
+  startTime: number
+  /** Centroid X coordinate of the pointers when the group reached its size. */
+  startX: number
+  /** Centroid Y coordinate of the pointers when the group reached its size. */
+  startY: number
+  /** Current centroid X coordinate of the pointers. */
+  currentX: number
+  /** Current centroid Y coordinate of the pointers. */
+  currentY: number
+  /** Movement of the centroid along the X axis on the last input. */
+  deltaX: number
+  /** Movement of the centroid along the Y axis on the last input. */
+  deltaY: number
+  /** Type of the pointer that started the gesture. */
+  pointerType: PointerType
+}
+
+/**
+ * The pointer input fed to the recognizers.
+ */
+export interface RecognizerInput {
+  /** What happened to the pointer. */
+  phase: 'down' | 'move' | 'up'
+  /** The pointer that went down, moved or was released. */
+  pointer: Readonly<ActivePointer>
+  /** The pointers still down, in the order they went down. */
+  pointers: readonly Readonly<ActivePointer>[]
+  /** The movement of the pointers as a whole, it stops following them once one is released. */
+  group: Readonly<PointerGroup>
+  /** Timestamp of the input. */
+  time: number
+}
+
+/**
+ * What a recognizer is given access to once registered on an instance.
+ */
+export interface RecognizerContext {
+  /** The current configuration of the instance. */
+  readonly config: Readonly<GestuelleConfig>
+  /** The time source and timers of the instance. */
+  readonly clock: Clock
+  /** Whether the gesture of the given name is enabled. */
+  isEnabled(gesture: string): boolean
+  /** The state of the recognizer of the given name for the current gesture, refused gestures being canceled. */
+  getState(gesture: string): RecognizerState | undefined
+  /** Dispatches a gesture event from the element, held while the gestures it requires the failure of are undecided. */
+  emit<K extends keyof GestuelleEventMap>(type: K, detail: GestuelleEventMap[K]['detail']): void
+  /** Notifies the instance that the state of the recognizer changed. */
+  update(recognizer: Recognizer, previousState: RecognizerState): void
+}
+
+/**
+ * Recognizes a gesture from the pointer input and dispatches its events.
+ * Extend `BaseRecognizer` rather than implementing it from scratch.
+ */
+export interface Recognizer {
+  /** Unique name of the recognizer, also the key of its options in the config. */
+  readonly name: string
+  /** The events the recognizer dispatches. */
+  readonly events: readonly (keyof GestuelleEventMap)[]
+  /** The current state of the recognizer. */
+  readonly state: RecognizerState
+  /** Whether the recognizer is fed with input. */
+  readonly enabled: boolean
+  /** The number of pointers the gesture is made with. */
+  readonly pointers: number
+  /** Called once when registered on an instance. */
+  attach(context: RecognizerContext): void
+  /** Handles the input of a pointer. */
+  process(input: RecognizerInput): void
+  /** Gets ready for a new gesture, called when the first pointer goes down. */
+  reset(): void
+  /** Stops recognizing the gesture, dispatching its cancel event if it has started. */
+  cancel(): void
+  /** Whether the gesture can be recognized at the same time as the other one. */
+  canRecognizeWith?(other: Recognizer): boolean
+  /** Whether the other gesture must fail before this one is recognized. */
+  requiresFailureOf?(other: Recognizer): boolean
+  /** Releases the resources of the recognizer when the instance is destroyed. */
+  destroy?(): void
+}
+
+/**
+ * The time source and timers used to recognize the gestures, replaceable to run them outside of a browser.
+ */
+export interface Clock {
+  /** Returns the current time in milliseconds. */
+  now(): number
+  /** Calls the callback after the delay (in milliseconds), returns a function canceling it. */
+  setTimeout(callback: () => void, delay: number): () => void
+  /** Calls the callback on the next frame, returns a function canceling it. */
+  requestAnimationFrame(callback: () => void): () => void
+}
+
+/**
+ * A pointer sample fed to the core, normalized from whatever the pointers come from.
+ */
+export interface PointerSample {
+  /** The unique ID of the pointer. */
+  id: number
+  /** X coordinate of the pointer. */
+  x: number
+  /** Y coordinate of the pointer. */
+  y: number
+  /** Type of pointer (mouse, touch, pen). */
+  type: PointerType
+  /** Timestamp of the sample in milliseconds, on the same time line as the clock. */
+  time: number
+  /** What happened to the pointer. */
+  phase: 'down' | 'move' | 'up' | 'cancel'
+  /** The button pressed or released (see `PointerEvent.button`). */
+  button?: number
+  /** The buttons down, as a bitmask (see `PointerEvent.buttons`). */
+  buttons?: number
+  /** Whether the shift key is held. */
+  shiftKey?: boolean
+  /** Whether the control key is held. */
+  ctrlKey?: boolean
+  /** Whether the alt key is held. */
+  altKey?: boolean
+  /** Whether the meta key is held. */
+  metaKey?: boolean
+}
+
+/**
+ * The input the pointer type, button and modifier key filters of a gesture are checked against.
+ */
+export type GestureFilterInput = Pick<PointerSample, 'type' | 'button' | 'shiftKey' | 'ctrlKey' | 'altKey' | 'metaKey'>
+
+/**
+ * Options of the DOM-free recognition core.
+ */
+export interface GestuelleCoreOptions {
+  /** Configuration of the gestures. */
+  config?: GestuelleConfig
+  /** The time source and timers, the ones of the environment by default. */
+  clock?: Clock
+  /** Called with every recognized gesture event, returning false from a start event refuses the gesture. */
+  onEvent<K extends keyof GestuelleEventMap>(type: K, detail: GestuelleEventMap[K]['detail']): unknown
+  /** Called when a gesture takes over the pointers. */
+  onClaim?(recognizer: Recognizer): void
+  /** Called when a gesture is declined, leaving the pointers to the host. */
+  onDecline?(recognizer: Recognizer): void
+}
+
+/**
+ * Watches what goes through an instance or a core.
+ */
+export interface GestuelleObserver {
+  /** Called with every pointer sample fed to the recognizers. */
+  onSample?(sample: PointerSample): void
+  /** Called with every gesture event emitted, with the time it was emitted at. */
+  onEvent?<K extends keyof GestuelleEventMap>(type: K, detail: GestuelleEventMap[K]['detail'], time: number): void
+}
+
+/**
+ * A gesture event emitted during a recording.
+ */
+export interface RecordedGestureEvent {
+  /** Type of the event. */
+  type: keyof GestuelleEventMap
+  /** Time of the event from the start of the recording (in milliseconds). */
+  time: number
+  /** Detail of the event. */
+  detail: GestureEventDetail
+}
+
+/**
+ * The pointer stream of an instance and the gesture events it resulted in, serializable to JSON.
+ */
+export interface GestureRecording {
+  /** Version of the recording format. */
+  version: 1
+  /** Configuration of the instance when the recording started. */
+  config: GestuelleConfig
+  /** Pointer samples, timed from the start of the recording. */
+  samples: PointerSample[]
+  /** Gesture events, timed from the start of the recording. */
+  events: RecordedGestureEvent[]
+  /** Duration of the recording (in milliseconds). */
+  duration: number
+}
+
+/**
+ * Records what goes through an instance or a core, see `recordGestures`.
+ */
+export interface GestureRecorder {
+  /** Stops recording and returns the recording, serializable to JSON. */
+  stop(): GestureRecording
+}
+
+/**
+ * Options of `replayGestures`.
+ */
+export interface ReplayOptions {
+  /** Feeds all the samples at once by advancing the virtual clock of the target instead of waiting. */
+  instant?: boolean
+}
+
+/**
+ * Options of the methods waiting for a gesture event.
+ */
+export interface WaitOptions {
+  /** Stops waiting when aborted, rejecting with the reason of the signal. */
+  signal?: AbortSignal
+  /** Time (in ms) after which the wait is rejected with a `TimeoutError`. */
+  timeout?: number
+}
+
+/**
+ * Options of an instance that cannot change once it is created.
+ */
+export interface GestuelleOptions {
+  /** The time source and timers, the ones of the environment by default. */
+  clock?: Clock
+}
+
+/**
+ * A 2D transform matrix, compatible with `DOMMatrix.fromMatrix` and the CSS `matrix()` function.
+ */
+export interface TransformMatrix {
+  a: number
+  b: number
+  c: number
+  d: number
+  e: number
+  f: number
+}
+
+/**
+ * The translation, scale and rotation accumulated by a transform controller, applied in that order
+ * with the `transform-origin` of the element at its top left corner.
+ */
+export interface Transform {
+  /** Translation along the X axis (in px). */
+  x: number
+  /** Translation along the Y axis (in px). */
+  y: number
+  /** Scale factor. */
+  scale: number
+  /** Rotation (in deg). */
+  rotation: number
+}
+
+/**
+ * Defines the detailed data provided with the `transformchange` event.
+ */
+export interface TransformChangeEventDetail extends Transform {
+  /** The matrix of the transform. */
+  matrix: TransformMatrix
+}
+
+/**
+ * Configuration options for a transform controller.
+ */
+export interface TransformControllerOptions {
+  /** The element moved by the gestures, the element of the instance by default. */
+  target?: HTMLElement
+  /**
+   * Sets the `transform` style of the target on each change, along with its `transform-origin`.
+   * @default false
+   */
+  applyStyle?: boolean
+  /** Minimum scale factor, reached once the gestures are over. */
+  minScale?: number
+  /** Maximum scale factor, reached once the gestures are over. */
+  maxScale?: number
+  /** Limits of the translation (in px), reached once the gestures are over. */
+  bounds?: { minX?: number; maxX?: number; minY?: number; maxY?: number }
+  /**
+   * Fraction of the movement kept beyond the limits while the gestures go on, `0` stopping at the limits.
+   * @default 0.3
+   */
+  rubberBand?: number
 }
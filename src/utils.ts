@@ -1,3 +1,261 @@
+import type { ActivePointer, GestuelleConfig, GestureConfig } from './types'
+
 export function rad2deg(angleRad: number): number {
   return angleRad * (180 / Math.PI)
 }
+
+export function deg2rad(angleDeg: number): number {
+  return angleDeg * (Math.PI / 180)
+}
+
+/**
+ * Wraps an angle (in deg) into the ]-180, 180] range.
+ */
+export function normalizeAngle(angle: number): number {
+  const wrapped = angle % 360
+  if (wrapped > 180) {
+    return wrapped - 360
+  }
+  if (wrapped <= -180) {
+    return wrapped + 360
+  }
+  return wrapped
+}
+
+/**
+ * Calls back with the reason of the first signal aborted, right away if one already is.
+ * Returns a function to stop watching the signals.
+ */
+export function watchSignals(signals: (AbortSignal | undefined)[], onAbort: (reason: unknown) => void): () => void {
+  const aborted = signals.find((signal) => signal?.aborted)
+
+  if (aborted) {
+    onAbort(aborted.reason)
+    return () => {}
+  }
+
+  const listeners = signals.map((signal) => {
+    const listener = () => onAbort(signal?.reason)
+    signal?.addEventListener('abort', listener, { once: true })
+    return listener
+  })
+
+  return () => {
+    signals.forEach((signal, index) => {
+      signal?.removeEventListener('abort', listeners[index])
+    })
+  }
+}
+
+/**
+ * A fixed size buffer overwriting its oldest items once full.
+ */
+export class RingBuffer<T> {
+  private items: T[] = []
+  private start = 0
+
+  constructor(readonly capacity: number) {}
+
+  push(item: T): void {
+    if (this.items.length < this.capacity) {
+      this.items.push(item)
+    } else {
+      this.items[this.start] = item
+      this.start = (this.start + 1) % this.capacity
+    }
+  }
+
+  /**
+   * Returns the items from the oldest to the newest.
+   */
+  toArray(): T[] {
+    return [...this.items.slice(this.start), ...this.items.slice(0, this.start)]
+  }
+}
+
+export interface PositionSample {
+  x: number
+  y: number
+  time: number
+}
+
+/**
+ * Computes the velocity (px/ms) from the samples recorded in the last `window` milliseconds.
+ * Returns a null velocity if the pointer did not move during that time.
+ */
+export function computeVelocity(samples: PositionSample[], window: number, now: number): [number, number] {
+  const last = samples[samples.length - 1]
+
+  if (!last || now - last.time > window) {
+    return [0, 0]
+  }
+
+  let first = last
+
+  for (let i = samples.length - 2; i >= 0; i--) {
+    const sample = samples[i]
+
+    if (now - sample.time > window) {
+      // Falls back on the sample before the window when the movement just started
+      if (first === last) {
+        first = sample
+      }
+      break
+    }
+
+    first = sample
+  }
+
+  const elapsed = last.time - first.time
+
+  if (elapsed <= 0) {
+    return [0, 0]
+  }
+
+  return [(last.x - first.x) / elapsed, (last.y - first.y) / elapsed]
+}
+
+/**
+ * Returns the mean velocity (px/ms) of the given pointers over the trailing window.
+ */
+export function getVelocity(
+  pointers: readonly Readonly<ActivePointer>[],
+  window: number,
+  now: number,
+): [number, number] {
+  let sumX = 0
+  let sumY = 0
+
+  for (const pointer of pointers) {
+    const [velocityX, velocityY] = computeVelocity(pointer.samples.toArray(), window, now)
+    sumX += velocityX
+    sumY += velocityY
+  }
+
+  return pointers.length > 0 ? [sumX / pointers.length, sumY / pointers.length] : [0, 0]
+}
+
+/**
+ * Returns the distance between two points.
+ */
+export function getDistance(fromX: number, fromY: number, toX: number, toY: number): number {
+  return Math.sqrt((toX - fromX) ** 2 + (toY - fromY) ** 2)
+}
+
+/**
+ * Returns the raw angle (in deg) from the first to the second of the given pointers.
+ */
+export function getPointersAngle(pointers: readonly Readonly<ActivePointer>[]): number {
+  const [first, second] = pointers
+  return rad2deg(Math.atan2(second.currentY - first.currentY, second.currentX - first.currentX))
+}
+
+/**
+ * Merges the options of each gesture section, other values being replaced.
+ */
+export function mergeConfig(config: GestuelleConfig, partial: GestuelleConfig): GestuelleConfig {
+  const merged: Record<string, unknown> = { ...config }
+
+  for (const [key, value] of Object.entries(partial)) {
+    const current = merged[key]
+
+    if (isPlainObject(value) && isPlainObject(current)) {
+      merged[key] = { ...current, ...value }
+    } else if (value !== undefined) {
+      merged[key] = value
+    }
+  }
+
+  return merged as GestuelleConfig
+}
+
+/**
+ * Returns the options of a gesture, built-in or registered under that name.
+ */
+export function getGestureConfig(config: Readonly<GestuelleConfig>, gesture: string): GestureConfig | undefined {
+  const gestureConfig = config[gesture as keyof GestuelleConfig]
+  return typeof gestureConfig === 'object' ? (gestureConfig as GestureConfig) : undefined
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) {
+    return false
+  }
+
+  // Not an array, nor an instance such as the `signal`, which is replaced rather than merged
+  const prototype = Object.getPrototypeOf(value)
+  return prototype === Object.prototype || prototype === null
+}
+
+/**
+ * A 2D affine transform, with the components of the CSS `matrix()` function.
+ */
+export type Matrix = [a: number, b: number, c: number, d: number, e: number, f: number]
+
+export const IDENTITY_MATRIX: Readonly<Matrix> = [1, 0, 0, 1, 0, 0]
+
+/**
+ * Parses a computed CSS transform, which is either `none`, a `matrix()` or a `matrix3d()` projected onto the plane.
+ */
+export function parseTransform(transform: string): Matrix {
+  const values = transform
+    .match(/^matrix(3d)?\((.+)\)$/)?.[2]
+    .split(',')
+    .map(Number)
+
+  if (values?.length === 6) {
+    return values as Matrix
+  }
+
+  if (values?.length === 16) {
+    return [values[0], values[1], values[4], values[5], values[12], values[13]]
+  }
+
+  return [...IDENTITY_MATRIX]
+}
+
+/**
+ * Returns the transform applying `second`, then `first`.
+ */
+export function multiplyMatrices(first: Readonly<Matrix>, second: Readonly<Matrix>): Matrix {
+  const [a1, b1, c1, d1, e1, f1] = first
+  const [a2, b2, c2, d2, e2, f2] = second
+
+  return [
+    a1 * a2 + c1 * b2,
+    b1 * a2 + d1 * b2,
+    a1 * c2 + c1 * d2,
+    b1 * c2 + d1 * d2,
+    a1 * e2 + c1 * f2 + e1,
+    b1 * e2 + d1 * f2 + f1,
+  ]
+}
+
+/**
+ * Returns the inverse transform, or null if the transform flattens the plane (e.g. `scale(0)`).
+ */
+export function invertMatrix(matrix: Readonly<Matrix>): Matrix | null {
+  const [a, b, c, d, e, f] = matrix
+  const determinant = a * d - b * c
+
+  if (determinant === 0) {
+    return null
+  }
+
+  return [
+    d / determinant,
+    -b / determinant,
+    -c / determinant,
+    a / determinant,
+    (c * f - d * e) / determinant,
+    (b * e - a * f) / determinant,
+  ]
+}
+
+/**
+ * Applies the transform to a point, or to a vector without the translation.
+ */
+export function transformPoint(matrix: Readonly<Matrix>, x: number, y: number, vector = false): [number, number] {
+  const [a, b, c, d, e, f] = matrix
+  return [a * x + c * y + (vector ? 0 : e), b * x + d * y + (vector ? 0 : f)]
+}
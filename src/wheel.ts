@@ -0,0 +1,418 @@
+import type { InputAdapterHost } from './input'
+import type { PanEventDetail, PinchEventDetail } from './types'
+
+/**
+ * The non-standard event Safari dispatches while pinching a trackpad.
+ */
+interface SafariGestureEvent extends UIEvent {
+  readonly scale: number
+  readonly clientX: number
+  readonly clientY: number
+}
+
+interface WheelGesture {
+  /** The gesture the input is reported as. */
+  type: 'pan' | 'pinch'
+  /** Whether the gesture comes from the Safari gesture events, which end by themselves. */
+  safari: boolean
+  /** Whether the gesture was refused from its start event, its input being ignored until it ends. */
+  refused: boolean
+  /** Axis the pan is locked on, if any. */
+  lockedAxis: 'x' | 'y' | null
+  /** X coordinate of the cursor when the gesture started. */
+  startX: number
+  /** Y coordinate of the cursor when the gesture started. */
+  startY: number
+  /** Current X coordinate of the cursor. */
+  x: number
+  /** Current Y coordinate of the cursor. */
+  y: number
+  /** Scroll along the X axis since the gesture started, as a pan offset. */
+  offsetX: number
+  /** Scroll along the Y axis since the gesture started, as a pan offset. */
+  offsetY: number
+  /** Current velocity along the X axis (px/ms). */
+  velocityX: number
+  /** Current velocity along the Y axis (px/ms). */
+  velocityY: number
+  /** Scale since the gesture started. */
+  scale: number
+  /** Timestamp of the last event. */
+  time: number
+}
+
+// Pixels scrolled per line, for the wheel events not reported in pixels
+const LINE_HEIGHT = 16
+
+/**
+ * Returns the axis the scroll mostly goes along.
+ */
+function getAxis(deltaX: number, deltaY: number): 'x' | 'y' {
+  return Math.abs(deltaX) > Math.abs(deltaY) ? 'x' : 'y'
+}
+
+/**
+ * Reports the wheel and trackpad input of an element as pan and pinch gestures, while enabled by the `wheel` option.
+ * The gestures end once the wheel has been idle for a while, as the wheel events do not tell when they stop.
+ */
+export class WheelAdapter {
+  private host: InputAdapterHost
+
+  private listening = false
+
+  private gesture: WheelGesture | null = null
+  private cancelEndTimeout: (() => void) | null = null
+
+  constructor(host: InputAdapterHost) {
+    this.host = host
+    this.update()
+  }
+
+  /**
+   * Listens to the wheel input while the `wheel` option is set, to be called when the configuration changes.
+   */
+  public update(): void {
+    const enabled = Boolean(this.host.config.wheel)
+
+    if (enabled === this.listening) {
+      return
+    }
+
+    this.listening = enabled
+
+    if (enabled) {
+      this.addEventListeners()
+    } else {
+      this.end()
+      this.removeEventListeners()
+    }
+  }
+
+  /**
+   * Cancels the current gesture if any, dispatching 'pancancel' or 'pinchcancel'.
+   */
+  public cancel(): void {
+    const gesture = this.gesture
+
+    this.clearEndTimeout()
+    this.gesture = null
+
+    if (!gesture || gesture.refused) {
+      return
+    }
+
+    if (gesture.type === 'pinch') {
+      this.host.dispatch('pinchcancel', this.getPinchDetail(gesture, 1))
+    } else {
+      this.host.dispatch('pancancel', this.getPanDetail(gesture, 0, 0))
+    }
+  }
+
+  public destroy(): void {
+    this.clearEndTimeout()
+    this.gesture = null
+
+    if (this.listening) {
+      this.listening = false
+      this.removeEventListeners()
+    }
+  }
+
+  private addEventListeners(): void {
+    // Not passive, so the page does not scroll or zoom
+    this.host.element.addEventListener('wheel', this.onWheel, { passive: false })
+    this.host.element.addEventListener('gesturestart', this.onGestureStart)
+    this.host.element.addEventListener('gesturechange', this.onGestureChange)
+    this.host.element.addEventListener('gestureend', this.onGestureEnd)
+  }
+
+  private removeEventListeners(): void {
+    this.host.element.removeEventListener('wheel', this.onWheel)
+    this.host.element.removeEventListener('gesturestart', this.onGestureStart)
+    this.host.element.removeEventListener('gesturechange', this.onGestureChange)
+    this.host.element.removeEventListener('gestureend', this.onGestureEnd)
+  }
+
+  private onWheel = (event: WheelEvent): void => {
+    // Trackpads scroll while holding `ctrl` when pinched
+    const type = event.ctrlKey ? 'pinch' : 'pan'
+
+    const scale = event.deltaMode === WheelEvent.DOM_DELTA_PAGE ? this.host.element.clientHeight : LINE_HEIGHT
+    let deltaX = event.deltaMode === WheelEvent.DOM_DELTA_PIXEL ? event.deltaX : event.deltaX * scale
+    let deltaY = event.deltaMode === WheelEvent.DOM_DELTA_PIXEL ? event.deltaY : event.deltaY * scale
+
+    if (type === 'pan') {
+      // Scrolling moves the content the other way, like dragging it
+      ;[deltaX, deltaY] = this.getPanDeltas(-deltaX, -deltaY)
+
+      // Scrolling along an axis the pan is not allowed on is left to the browser, e.g. to scroll the page
+      if (deltaX === 0 && deltaY === 0) {
+        return
+      }
+    }
+
+    if (this.gesture?.safari || !this.canStart(type, event)) {
+      return
+    }
+
+    event.preventDefault()
+
+    if (type === 'pinch') {
+      const wheelConfig = typeof this.host.config.wheel === 'object' ? this.host.config.wheel : {}
+      const zoomSpeed = wheelConfig.zoomSpeed ?? 0.01
+
+      // Scrolling down zooms out
+      this.pinch(event.clientX, event.clientY, Math.exp(-deltaY * zoomSpeed), false)
+    } else {
+      this.pan(event.clientX, event.clientY, deltaX, deltaY)
+    }
+
+    this.scheduleEnd()
+  }
+
+  private onGestureStart = (event: Event): void => {
+    if (!this.canStart('pinch', event)) {
+      return
+    }
+
+    const gestureEvent = event as SafariGestureEvent
+    event.preventDefault()
+
+    this.end()
+    this.pinch(gestureEvent.clientX, gestureEvent.clientY, gestureEvent.scale, true)
+  }
+
+  private onGestureChange = (event: Event): void => {
+    const gesture = this.gesture
+
+    if (!gesture?.safari) {
+      return
+    }
+
+    const gestureEvent = event as SafariGestureEvent
+    event.preventDefault()
+
+    // The scale of the Safari gesture events is the one since the gesture started
+    this.pinch(gestureEvent.clientX, gestureEvent.clientY, gestureEvent.scale / gesture.scale, true)
+  }
+
+  private onGestureEnd = (): void => {
+    if (this.gesture?.safari) {
+      this.end()
+    }
+  }
+
+  /**
+   * Whether the input can go on with the current gesture or start a new one.
+   */
+  private canStart(type: WheelGesture['type'], event: Event): boolean {
+    // The pointers make their own gestures, like a pinch on a touch screen dispatching Safari gesture events
+    if (this.host.pointerCount > 0 || !this.host.isEnabled(type)) {
+      return false
+    }
+
+    if (this.gesture?.type === type) {
+      return true
+    }
+
+    const { shiftKey, ctrlKey, altKey, metaKey } = event as MouseEvent
+
+    // The wheel and the trackpad are reported as a mouse
+    if (
+      !this.host.accepts(type, {
+        type: 'mouse',
+        shiftKey: shiftKey,
+        ctrlKey: ctrlKey,
+        altKey: altKey,
+        metaKey: metaKey,
+      })
+    ) {
+      return false
+    }
+
+    this.end()
+    return this.host.acquireTarget(event)
+  }
+
+  /**
+   * Keeps the scroll along the axis the pan is allowed or locked on, none if it mostly goes along the other one.
+   */
+  private getPanDeltas(deltaX: number, deltaY: number): [number, number] {
+    const panConfig = this.host.config.pan
+    const panDirection = panConfig?.direction ?? 'all'
+    const axis = getAxis(deltaX, deltaY)
+
+    let allowedAxis: 'x' | 'y' | null = null
+
+    if (panDirection !== 'all') {
+      allowedAxis = panDirection === 'horizontal' ? 'x' : 'y'
+    } else if (panConfig?.lockAxis) {
+      // The axis of the first scroll of the gesture
+      allowedAxis = this.gesture?.type === 'pan' ? this.gesture.lockedAxis : axis
+    }
+
+    if (allowedAxis === null) {
+      return [deltaX, deltaY]
+    }
+
+    if (axis !== allowedAxis) {
+      return [0, 0]
+    }
+
+    return allowedAxis === 'x' ? [deltaX, 0] : [0, deltaY]
+  }
+
+  private pinch(x: number, y: number, deltaScale: number, safari: boolean): void {
+    const started = this.gesture === null
+    const gesture = this.gesture ?? this.startGesture('pinch', x, y, safari)
+
+    if (gesture.refused) {
+      return
+    }
+
+    gesture.x = x
+    gesture.y = y
+    gesture.scale *= deltaScale
+    gesture.time = this.host.clock.now()
+
+    const detail = this.getPinchDetail(gesture, deltaScale)
+
+    if (started && !this.host.dispatch('pinchstart', detail)) {
+      gesture.refused = true
+      return
+    }
+
+    this.host.dispatch('pinchmove', detail)
+  }
+
+  private pan(x: number, y: number, deltaX: number, deltaY: number): void {
+    const started = this.gesture === null
+    const gesture = this.gesture ?? this.startGesture('pan', x, y, false)
+
+    if (gesture.refused) {
+      return
+    }
+
+    const now = this.host.clock.now()
+
+    // The first event has no previous one to measure the time from, a frame is assumed
+    const elapsed = started ? 16 : Math.max(now - gesture.time, 1)
+
+    if (started && this.host.config.pan?.lockAxis) {
+      gesture.lockedAxis = getAxis(deltaX, deltaY)
+    }
+
+    gesture.x = x
+    gesture.y = y
+    gesture.offsetX += deltaX
+    gesture.offsetY += deltaY
+    gesture.velocityX = deltaX / elapsed
+    gesture.velocityY = deltaY / elapsed
+    gesture.time = now
+
+    const detail = this.getPanDetail(gesture, deltaX, deltaY)
+
+    if (started) {
+      gesture.refused = !this.host.dispatch('panstart', detail)
+    } else {
+      this.host.dispatch('panmove', detail)
+    }
+  }
+
+  private startGesture(type: WheelGesture['type'], x: number, y: number, safari: boolean): WheelGesture {
+    this.gesture = {
+      type: type,
+      safari: safari,
+      refused: false,
+      lockedAxis: null,
+      startX: x,
+      startY: y,
+      x: x,
+      y: y,
+      offsetX: 0,
+      offsetY: 0,
+      velocityX: 0,
+      velocityY: 0,
+      scale: 1,
+      time: 0,
+    }
+
+    return this.gesture
+  }
+
+  /**
+   * Ends the gesture once the wheel has been idle for the configured delay.
+   */
+  private scheduleEnd(): void {
+    const wheelConfig = typeof this.host.config.wheel === 'object' ? this.host.config.wheel : {}
+    const endDelay = wheelConfig.endDelay ?? 150
+
+    this.clearEndTimeout()
+    this.cancelEndTimeout = this.host.clock.setTimeout(() => {
+      this.cancelEndTimeout = null
+      this.end()
+    }, endDelay)
+  }
+
+  /**
+   * Ends the current gesture if any, dispatching 'panend' or 'pinchend'.
+   */
+  private end(): void {
+    const gesture = this.gesture
+
+    this.clearEndTimeout()
+    this.gesture = null
+
+    if (!gesture || gesture.refused) {
+      return
+    }
+
+    if (gesture.type === 'pinch') {
+      this.host.dispatch('pinchend', this.getPinchDetail(gesture, 1))
+    } else {
+      // The wheel has been idle, the momentum of the trackpad being reported as wheel events already
+      gesture.velocityX = 0
+      gesture.velocityY = 0
+      this.host.dispatch('panend', this.getPanDetail(gesture, 0, 0))
+    }
+  }
+
+  private clearEndTimeout(): void {
+    if (this.cancelEndTimeout !== null) {
+      this.cancelEndTimeout()
+      this.cancelEndTimeout = null
+    }
+  }
+
+  private getPinchDetail(gesture: WheelGesture, deltaScale: number): PinchEventDetail {
+    return {
+      x: gesture.x,
+      y: gesture.y,
+      pointerType: 'mouse',
+      pointerCount: 0,
+      distance: 0,
+      angle: 0,
+      centerX: gesture.x,
+      centerY: gesture.y,
+      offsetX: gesture.x - gesture.startX,
+      offsetY: gesture.y - gesture.startY,
+      scale: gesture.scale,
+      deltaScale: deltaScale,
+    }
+  }
+
+  private getPanDetail(gesture: WheelGesture, deltaX: number, deltaY: number): PanEventDetail {
+    return {
+      x: gesture.x,
+      y: gesture.y,
+      pointerType: 'mouse',
+      pointerCount: 0,
+      deltaX: deltaX,
+      deltaY: deltaY,
+      offsetX: gesture.offsetX,
+      offsetY: gesture.offsetY,
+      velocityX: gesture.velocityX,
+      velocityY: gesture.velocityY,
+    }
+  }
+}
@@ -16,7 +16,6 @@ function createElement(config: GestuelleConfig) {
     border-radius: 16px;
     cursor: grab;
     user-select: none;
-    touch-action: none;
     display: flex;
     align-items: center;
     justify-content: center;
@@ -91,6 +90,19 @@ function createElement(config: GestuelleConfig) {
       })
     }
 
+    if (config.multiTap) {
+      box.addEventListener('doubletap', (event) => {
+        box.textContent = `DOUBLE TAP! (x${event.detail.tapCount})`
+        box.style.backgroundColor = '#00BCD4'
+        box.style.border = '4px solid #0097A7'
+        setTimeout(() => {
+          box.textContent = 'Touch or Click Me!'
+          box.style.backgroundColor = '#4CAF50'
+          box.style.border = '4px solid #388E3C'
+        }, 300)
+      })
+    }
+
     if (config.press) {
       box.addEventListener('pressstart', () => {
         box.textContent = `Pressing...`
@@ -138,7 +150,7 @@ function createElement(config: GestuelleConfig) {
       })
 
       box.addEventListener('pinchmove', (event) => {
-        box.textContent = `Pinching... (Distance: ${event.detail.distance.toFixed(0)}px, Angle: ${event.detail.angle.toFixed(0)}deg)`
+        box.textContent = `Pinching... (Scale: ${event.detail.scale.toFixed(2)}, Angle: ${event.detail.angle.toFixed(0)}deg)`
         box.style.backgroundColor = '#FF5722'
         box.style.border = '4px solid #E64A19'
       })
@@ -161,6 +173,29 @@ function createElement(config: GestuelleConfig) {
         }, 500)
       })
     }
+
+    if (config.rotate) {
+      box.addEventListener('rotatestart', () => {
+        box.textContent = `Rotating...`
+        box.style.backgroundColor = '#FF9800'
+        box.style.border = '4px solid #F57C00'
+      })
+
+      box.addEventListener('rotatemove', (event) => {
+        box.textContent = `Rotating... (${event.detail.rotation.toFixed(0)}deg)`
+        box.style.transform = `translate(-50%, -50%) rotate(${event.detail.rotation}deg)`
+      })
+
+      box.addEventListener('rotateend', () => {
+        box.textContent = `Rotate End!`
+        box.style.backgroundColor = '#4CAF50'
+        box.style.border = '4px solid #388E3C'
+        setTimeout(() => {
+          box.textContent = 'Touch or Click Me!'
+          box.style.transform = 'translate(-50%, -50%)'
+        }, 500)
+      })
+    }
   })
 
   return box
@@ -179,9 +214,11 @@ export const Default: Story = {
   args: {
     pan: { threshold: 5 },
     tap: { maxDuration: 250, maxDistance: 10 },
+    multiTap: { maxInterval: 300, maxDistance: 20, taps: 2 },
     press: { minDuration: 500, maxDistance: 10 },
     swipe: { minVelocity: 0.3, minDistance: 30, maxDuration: 300 },
     pinch: { threshold: 5 },
+    rotate: { threshold: 10 },
   },
 }
 
@@ -197,6 +234,13 @@ export const Tap: Story = {
   },
 }
 
+export const DoubleTap: Story = {
+  args: {
+    tap: { maxDuration: 250, maxDistance: 10 },
+    multiTap: { maxInterval: 300, maxDistance: 20, taps: 2, exclusive: true },
+  },
+}
+
 export const Press: Story = {
   args: {
     press: { minDuration: 500, maxDistance: 10 },
@@ -214,3 +258,9 @@ export const Pinch: Story = {
     pinch: { threshold: 5 },
   },
 }
+
+export const Rotate: Story = {
+  args: {
+    rotate: { threshold: 10 },
+  },
+}
@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createGestuelle } from '../src/gestuelle'
+import { touch } from './utils'
+
+describe('Async', () => {
+  let element: HTMLElement
+  let gestuelleInstance: ReturnType<typeof createGestuelle>
+
+  function pan(...points: [number, number][]): void {
+    touch('pointerdown', 1, ...points[0], element)
+    points.slice(1).forEach((point) => touch('pointermove', 1, ...point, element))
+  }
+
+  beforeEach(() => {
+    element = document.createElement('div')
+    document.body.appendChild(element)
+    gestuelleInstance = createGestuelle(element)
+  })
+
+  afterEach(() => {
+    gestuelleInstance.destroy()
+    element.remove()
+    vi.useRealTimers()
+  })
+
+  it('should resolve with the next event', async () => {
+    const tap = gestuelleInstance.once('tap')
+
+    touch('pointerdown', 1, 10, 20, element)
+    touch('pointerup', 1, 10, 20, element)
+
+    await expect(tap).resolves.toMatchObject({ x: 10, y: 20, tapCount: 1 })
+  })
+
+  it('should reject once the timeout is over', async () => {
+    vi.useFakeTimers()
+    const swipe = gestuelleInstance.waitFor('swipe', { timeout: 1000 })
+
+    vi.advanceTimersByTime(1000)
+
+    await expect(swipe).rejects.toMatchObject({ name: 'TimeoutError' })
+  })
+
+  it('should reject with the reason of the aborted signal', async () => {
+    const controller = new AbortController()
+    const swipe = gestuelleInstance.waitFor('swipe', { signal: controller.signal })
+
+    controller.abort('closed')
+
+    await expect(swipe).rejects.toBe('closed')
+    await expect(gestuelleInstance.once('tap', { signal: controller.signal })).rejects.toBe('closed')
+  })
+
+  it('should iterate over the moves until the pan ends', async () => {
+    const moves = gestuelleInstance.pan()
+
+    pan([10, 10], [20, 10], [30, 15])
+    touch('pointerup', 1, 30, 15, element)
+    pan([10, 10], [20, 10], [30, 10])
+
+    const deltas: number[] = []
+    for await (const move of moves) {
+      deltas.push(move.deltaX)
+    }
+
+    expect(deltas).toEqual([10])
+  })
+
+  it('should complete the iteration when the pan is canceled', async () => {
+    const moves = gestuelleInstance.pan()
+
+    pan([10, 10], [20, 10], [30, 10])
+    const first = await moves.next()
+    gestuelleInstance.cancel()
+
+    expect(first).toMatchObject({ value: { offsetX: 20 }, done: false })
+    await expect(moves.next()).resolves.toEqual({ value: undefined, done: true })
+  })
+
+  it('should stop listening when breaking out of the iteration', async () => {
+    const removeEventListener = vi.spyOn(element, 'removeEventListener')
+
+    pan([10, 10], [20, 10])
+    const moves = gestuelleInstance.pan()
+    touch('pointermove', 1, 30, 10, element)
+
+    for await (const move of moves) {
+      expect(move.offsetX).toBe(20)
+      break
+    }
+
+    expect(removeEventListener).toHaveBeenCalledWith('panmove', expect.any(Function))
+  })
+
+  it('should reject the waits and iterations when destroyed', async () => {
+    const tap = gestuelleInstance.once('tap')
+    const moves = gestuelleInstance.pinch()
+
+    gestuelleInstance.destroy()
+
+    await expect(tap).rejects.toMatchObject({ name: 'AbortError' })
+    await expect(moves.next()).rejects.toMatchObject({ name: 'AbortError' })
+  })
+})
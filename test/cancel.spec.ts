@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createGestuelle } from '../src/gestuelle'
+import { touch } from './utils'
+
+describe('Cancel', () => {
+  let element: HTMLElement
+  let gestuelleInstance: ReturnType<typeof createGestuelle>
+  let listener: ReturnType<typeof vi.fn>
+
+  const types = [
+    'tap',
+    'pressstart',
+    'pressend',
+    'presscancel',
+    'panstart',
+    'panmove',
+    'panend',
+    'pancancel',
+    'swipe',
+  ] as const
+
+  function getTypes(): string[] {
+    return listener.mock.calls.map(([event]) => event.type)
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    element = document.createElement('div')
+    document.body.appendChild(element)
+    listener = vi.fn()
+    types.forEach((type) => {
+      element.addEventListener(type, listener)
+    })
+    gestuelleInstance = createGestuelle(element, { pan: { threshold: 2 } })
+  })
+
+  afterEach(() => {
+    gestuelleInstance.destroy()
+    element.remove()
+    vi.useRealTimers()
+  })
+
+  it('should refuse the gesture whose start event is canceled', () => {
+    element.addEventListener('panstart', (event) => event.preventDefault())
+
+    touch('pointerdown', 1, 10, 10, element)
+    touch('pointermove', 1, 20, 10, element)
+    touch('pointermove', 1, 30, 10, element)
+    touch('pointerup', 1, 30, 10, element)
+
+    expect(getTypes()).toEqual(['panstart'])
+  })
+
+  it('should not swipe once the pan is refused', () => {
+    element.addEventListener('panstart', (event) => event.preventDefault())
+
+    touch('pointerdown', 1, 10, 10, element)
+    touch('pointermove', 1, 30, 10, element)
+    touch('pointermove', 1, 60, 10, element)
+    touch('pointerup', 1, 60, 10, element)
+
+    expect(getTypes()).toEqual(['panstart'])
+  })
+
+  it('should fall back to the gestures stopped by the refused one', () => {
+    element.addEventListener('panstart', (event) => event.preventDefault())
+
+    touch('pointerdown', 1, 10, 10, element)
+    touch('pointermove', 1, 13, 10, element)
+    touch('pointerup', 1, 13, 10, element)
+
+    expect(getTypes()).toEqual(['panstart', 'tap'])
+  })
+
+  it('should only make the start events cancelable', () => {
+    const cancelable: Record<string, boolean> = {}
+    types.forEach((type) => {
+      element.addEventListener(type, (event) => {
+        cancelable[event.type] = event.cancelable
+      })
+    })
+
+    touch('pointerdown', 1, 10, 10, element)
+    touch('pointermove', 1, 20, 10, element)
+    touch('pointermove', 1, 30, 10, element)
+    touch('pointerup', 1, 30, 10, element)
+
+    expect(cancelable).toEqual({ panstart: true, panmove: false, panend: false })
+  })
+
+  it('should cancel the ongoing gesture', () => {
+    touch('pointerdown', 1, 10, 10, element)
+    touch('pointermove', 1, 20, 10, element)
+
+    gestuelleInstance.cancel()
+    touch('pointermove', 1, 30, 10, element)
+    touch('pointerup', 1, 30, 10, element)
+
+    expect(getTypes()).toEqual(['panstart', 'pancancel'])
+  })
+
+  it('should recognize the gestures again once the pointers go down again', () => {
+    touch('pointerdown', 1, 10, 10, element)
+    vi.advanceTimersByTime(500)
+
+    gestuelleInstance.cancel()
+    touch('pointerup', 1, 10, 10, element)
+    touch('pointerdown', 1, 10, 10, element)
+    touch('pointerup', 1, 10, 10, element)
+
+    expect(getTypes()).toEqual(['pressstart', 'presscancel', 'tap'])
+  })
+
+  it('should cancel the gestures made with the keyboard', () => {
+    gestuelleInstance.setConfig({ keyboard: true })
+
+    element.dispatchEvent(new KeyboardEvent('keydown', { key: 'ContextMenu', bubbles: true, cancelable: true }))
+    gestuelleInstance.cancel()
+
+    expect(getTypes()).toEqual(['pressstart', 'presscancel'])
+  })
+})
@@ -0,0 +1,173 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createGestuelle } from '../src/gestuelle'
+import { touch } from './utils'
+
+describe('Runtime config', () => {
+  let g: ReturnType<typeof createGestuelle>
+
+  let tap: ReturnType<typeof vi.fn>
+  let doubleTap: ReturnType<typeof vi.fn>
+  let pressStart: ReturnType<typeof vi.fn>
+  let pressCancel: ReturnType<typeof vi.fn>
+  let panStart: ReturnType<typeof vi.fn>
+  let panMove: ReturnType<typeof vi.fn>
+  let panCancel: ReturnType<typeof vi.fn>
+  let pinchStart: ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+
+    tap = vi.fn()
+    doubleTap = vi.fn()
+    pressStart = vi.fn()
+    pressCancel = vi.fn()
+    panStart = vi.fn()
+    panMove = vi.fn()
+    panCancel = vi.fn()
+    pinchStart = vi.fn()
+
+    document.body.addEventListener('tap', tap)
+    document.body.addEventListener('doubletap', doubleTap)
+    document.body.addEventListener('pressstart', pressStart)
+    document.body.addEventListener('presscancel', pressCancel)
+    document.body.addEventListener('panstart', panStart)
+    document.body.addEventListener('panmove', panMove)
+    document.body.addEventListener('pancancel', panCancel)
+    document.body.addEventListener('pinchstart', pinchStart)
+  })
+
+  afterEach(() => {
+    document.body.removeEventListener('tap', tap)
+    document.body.removeEventListener('doubletap', doubleTap)
+    document.body.removeEventListener('pressstart', pressStart)
+    document.body.removeEventListener('presscancel', pressCancel)
+    document.body.removeEventListener('panstart', panStart)
+    document.body.removeEventListener('panmove', panMove)
+    document.body.removeEventListener('pancancel', panCancel)
+    document.body.removeEventListener('pinchstart', pinchStart)
+    g.destroy()
+    vi.useRealTimers()
+  })
+
+  it('should merge the options of each gesture', () => {
+    g = createGestuelle(document.body, { pan: { threshold: 20, direction: 'horizontal' } })
+
+    g.setConfig({ pan: { threshold: 5 } })
+
+    expect(g.config.pan).toEqual({ threshold: 5, direction: 'horizontal' })
+  })
+
+  it('should apply new options to the next gesture', () => {
+    g = createGestuelle(document.body, { pan: { threshold: 50 } })
+
+    touch('pointerdown', 1, 0, 0)
+    touch('pointermove', 1, 20, 0)
+    touch('pointerup', 1, 20, 0)
+    expect(panStart).not.toHaveBeenCalled()
+
+    g.setConfig({ pan: { threshold: 10 } })
+
+    touch('pointerdown', 1, 0, 0)
+    touch('pointermove', 1, 20, 0)
+    touch('pointerup', 1, 20, 0)
+    expect(panStart).toHaveBeenCalledTimes(1)
+  })
+
+  it('should NOT recognize a disabled gesture', () => {
+    g = createGestuelle(document.body, { tap: { enabled: false } })
+
+    expect(g.isEnabled('tap')).toBe(false)
+
+    touch('pointerdown', 1, 10, 10)
+    touch('pointerup', 1, 10, 10)
+    expect(tap).not.toHaveBeenCalled()
+
+    g.enable('tap')
+    vi.advanceTimersByTime(1000)
+
+    touch('pointerdown', 1, 10, 10)
+    touch('pointerup', 1, 10, 10)
+    expect(tap).toHaveBeenCalledTimes(1)
+  })
+
+  it('should NOT chain taps when multi-tap is disabled', () => {
+    g = createGestuelle(document.body)
+    g.disable('multiTap')
+
+    touch('pointerdown', 1, 10, 10)
+    touch('pointerup', 1, 10, 10)
+    touch('pointerdown', 1, 10, 10)
+    touch('pointerup', 1, 10, 10)
+
+    expect(tap).toHaveBeenCalledTimes(2)
+    expect(tap.mock.calls[1][0].detail.tapCount).toBe(1)
+    expect(doubleTap).not.toHaveBeenCalled()
+  })
+
+  it('should NOT start a press when it is disabled', () => {
+    g = createGestuelle(document.body)
+    g.disable('press')
+
+    touch('pointerdown', 1, 10, 10)
+    vi.advanceTimersByTime(1000)
+    touch('pointerup', 1, 10, 10)
+
+    expect(pressStart).not.toHaveBeenCalled()
+  })
+
+  it('should cancel a press in progress when it is disabled', () => {
+    g = createGestuelle(document.body)
+
+    touch('pointerdown', 1, 10, 10)
+    vi.advanceTimersByTime(600)
+    expect(pressStart).toHaveBeenCalledTimes(1)
+
+    g.disable('press')
+    expect(pressCancel).toHaveBeenCalledTimes(1)
+
+    touch('pointermove', 1, 50, 10)
+    touch('pointerup', 1, 50, 10)
+    expect(panStart).not.toHaveBeenCalled()
+    expect(tap).not.toHaveBeenCalled()
+  })
+
+  it('should cancel a pan in progress when it is disabled', () => {
+    g = createGestuelle(document.body)
+
+    touch('pointerdown', 1, 0, 0)
+    touch('pointermove', 1, 20, 0)
+    expect(panStart).toHaveBeenCalledTimes(1)
+
+    g.disable('pan')
+    expect(panCancel).toHaveBeenCalledTimes(1)
+
+    touch('pointermove', 1, 40, 0)
+    touch('pointerup', 1, 40, 0)
+    expect(panMove).not.toHaveBeenCalled()
+  })
+
+  it('should NOT pinch when it is disabled', () => {
+    g = createGestuelle(document.body, { pinch: { enabled: false } })
+
+    touch('pointerdown', 1, 0, 0)
+    touch('pointerdown', 2, 100, 0)
+    touch('pointermove', 2, 200, 0)
+    touch('pointerup', 1, 0, 0)
+    touch('pointerup', 2, 200, 0)
+
+    expect(pinchStart).not.toHaveBeenCalled()
+  })
+
+  it('should update the touch-action', () => {
+    g = createGestuelle(document.body)
+    expect(document.body.style.touchAction).toBe('none')
+
+    g.disable('pan')
+    g.disable('swipe')
+    expect(document.body.style.touchAction).toBe('pan-x pan-y')
+
+    g.disable('pinch')
+    g.disable('rotate')
+    expect(document.body.style.touchAction).toBe('manipulation')
+  })
+})
@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createGestuelle } from '../src/gestuelle'
+import { touch } from './utils'
+
+describe('Coordinates', () => {
+  let element: HTMLElement
+  let gestuelleInstance: ReturnType<typeof createGestuelle>
+  let listener: ReturnType<typeof vi.fn>
+
+  /**
+   * Lays the element out at the given position and size, its bounding rectangle enclosing the transformed box.
+   */
+  function layout(left: number, top: number, width: number, height: number, rect = { width, height }): void {
+    Object.defineProperty(element, 'offsetWidth', { value: width, configurable: true })
+    Object.defineProperty(element, 'offsetHeight', { value: height, configurable: true })
+    element.getBoundingClientRect = () => new DOMRect(left, top, rect.width, rect.height)
+  }
+
+  function getDetail(type: string) {
+    return listener.mock.calls.map(([event]) => event).find((event) => event.type === type)?.detail
+  }
+
+  beforeEach(() => {
+    element = document.createElement('div')
+    document.body.appendChild(element)
+    listener = vi.fn()
+    ;['tap', 'panend', 'swipe'].forEach((type) => {
+      element.addEventListener(type, listener)
+    })
+    // The pans are quick enough to swipe, which would replace their end
+    gestuelleInstance = createGestuelle(element, { swipe: { enabled: false } })
+  })
+
+  afterEach(() => {
+    gestuelleInstance.destroy()
+    element.remove()
+  })
+
+  function pan(fromX: number, fromY: number, toX: number, toY: number): void {
+    touch('pointerdown', 1, fromX, fromY, element)
+    touch('pointermove', 1, (fromX + toX) / 2, (fromY + toY) / 2, element)
+    touch('pointermove', 1, toX, toY, element)
+    touch('pointerup', 1, toX, toY, element)
+  }
+
+  it('should report the coordinates relative to the element', () => {
+    layout(100, 50, 200, 100)
+
+    touch('pointerdown', 1, 150, 80, element)
+    touch('pointerup', 1, 150, 80, element)
+
+    expect(getDetail('tap')).toMatchObject({ x: 150, y: 80, localX: 50, localY: 30 })
+  })
+
+  it('should report the local coordinates through the transform of the element', () => {
+    element.style.transform = 'matrix(2, 0, 0, 2, 0, 0)'
+    element.style.transformOrigin = '0px 0px'
+    layout(100, 50, 100, 50, { width: 200, height: 100 })
+
+    touch('pointerdown', 1, 300, 150, element)
+    touch('pointerup', 1, 300, 150, element)
+
+    expect(getDetail('tap')).toMatchObject({ x: 300, y: 150, localX: 100, localY: 50 })
+  })
+
+  it('should report the offsets in the element space', () => {
+    element.style.transform = 'matrix(2, 0, 0, 2, 0, 0)'
+    element.style.transformOrigin = '0px 0px'
+    layout(100, 50, 100, 50, { width: 200, height: 100 })
+    gestuelleInstance.setConfig({ coordinateSpace: 'element' })
+
+    pan(120, 60, 160, 60)
+
+    expect(getDetail('panend')).toMatchObject({ x: 30, y: 5, localX: 30, localY: 5, offsetX: 20, offsetY: 0 })
+  })
+
+  it('should follow the rotation of the element', () => {
+    element.style.transform = 'matrix(0, 1, -1, 0, 0, 0)'
+    layout(0, 0, 100, 100)
+    gestuelleInstance.setConfig({ coordinateSpace: 'element' })
+
+    pan(50, 20, 50, 60)
+
+    const detail = getDetail('panend')
+    expect(detail.offsetX).toBeCloseTo(40)
+    expect(detail.offsetY).toBeCloseTo(0)
+    expect(detail.localX).toBeCloseTo(60)
+    expect(detail.localY).toBeCloseTo(50)
+  })
+
+  it('should follow the transforms of the ancestors', () => {
+    const parent = document.createElement('div')
+    parent.style.transform = 'matrix(2, 0, 0, 2, 0, 0)'
+    document.body.appendChild(parent)
+    parent.appendChild(element)
+    layout(100, 50, 100, 50, { width: 200, height: 100 })
+
+    touch('pointerdown', 1, 300, 150, element)
+    touch('pointerup', 1, 300, 150, element)
+
+    parent.remove()
+    expect(getDetail('tap')).toMatchObject({ x: 300, y: 150, localX: 100, localY: 50 })
+  })
+
+  it('should report the speed and distance of the swipe in the element space', () => {
+    element.style.transform = 'matrix(2, 0, 0, 2, 0, 0)'
+    layout(0, 0, 100, 100, { width: 200, height: 200 })
+    gestuelleInstance.setConfig({ coordinateSpace: 'element', swipe: { enabled: true } })
+
+    vi.useFakeTimers()
+    touch('pointerdown', 1, 0, 0, element)
+    vi.advanceTimersByTime(50)
+    touch('pointermove', 1, 0, 60, element)
+    vi.advanceTimersByTime(50)
+    touch('pointermove', 1, 0, 120, element)
+    touch('pointerup', 1, 0, 120, element)
+    vi.useRealTimers()
+
+    expect(getDetail('swipe')).toMatchObject({ distance: 60, velocityX: 0, velocityY: 0.6, velocity: 0.6 })
+  })
+
+  it('should only lay the element out once per gesture', () => {
+    layout(0, 0, 100, 100)
+    const getBoundingClientRect = vi.spyOn(element, 'getBoundingClientRect')
+
+    pan(10, 10, 50, 10)
+    touch('pointerdown', 1, 10, 10, element)
+    touch('pointerup', 1, 10, 10, element)
+
+    expect(getBoundingClientRect).toHaveBeenCalledTimes(2)
+  })
+
+  it('should report the positions in the page space', () => {
+    Object.defineProperty(window, 'scrollY', { value: 200, configurable: true })
+    layout(0, 0, 100, 100)
+    gestuelleInstance.setConfig({ coordinateSpace: 'page' })
+
+    pan(10, 10, 50, 10)
+
+    expect(getDetail('panend')).toMatchObject({ x: 50, y: 210, localX: 50, localY: 10, offsetX: 40, offsetY: 0 })
+
+    Object.defineProperty(window, 'scrollY', { value: 0, configurable: true })
+  })
+})
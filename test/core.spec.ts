@@ -0,0 +1,63 @@
+// @vitest-environment node
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { createVirtualClock, type VirtualClock } from '../src/clock'
+import { createGestuelleCore } from '../src/core'
+import type { PointerSample } from '../src/types'
+
+describe('Core', () => {
+  let clock: VirtualClock
+  let onEvent: ReturnType<typeof vi.fn>
+  let core: ReturnType<typeof createGestuelleCore>
+
+  function sample(phase: PointerSample['phase'], id: number, x: number, y: number): void {
+    core.process({ id: id, x: x, y: y, type: 'touch', time: clock.now(), phase: phase })
+  }
+
+  beforeEach(() => {
+    clock = createVirtualClock()
+    onEvent = vi.fn()
+    core = createGestuelleCore({ clock: clock, onEvent: onEvent, config: { press: { minDuration: 500 } } })
+  })
+
+  it('should run without a DOM', () => {
+    expect(typeof document).toBe('undefined')
+  })
+
+  it('should emit the events through the callback', () => {
+    sample('down', 1, 10, 10)
+    clock.advance(50)
+    sample('up', 1, 10, 10)
+
+    expect(onEvent).toHaveBeenCalledWith('tap', expect.objectContaining({ x: 10, y: 10, tapCount: 1 }))
+  })
+
+  it('should use the injected clock for the timers', () => {
+    sample('down', 1, 10, 10)
+    clock.advance(499)
+    expect(onEvent).not.toHaveBeenCalled()
+
+    clock.advance(1)
+    expect(onEvent).toHaveBeenCalledWith('pressstart', expect.objectContaining({ duration: 500 }))
+  })
+
+  it('should use the time of the samples for the velocity', () => {
+    sample('down', 1, 0, 0)
+    clock.advance(10)
+    sample('move', 1, 10, 0)
+    clock.advance(10)
+    sample('move', 1, 30, 0)
+
+    const [type, detail] = onEvent.mock.calls[onEvent.mock.calls.length - 1]
+    expect(type).toBe('panmove')
+    expect(detail.velocityX).toBe(1.5)
+  })
+
+  it('should cancel the gestures on a canceled pointer', () => {
+    sample('down', 1, 0, 0)
+    sample('move', 1, 30, 0)
+    sample('cancel', 1, 30, 0)
+
+    expect(onEvent).toHaveBeenCalledWith('pancancel', expect.anything())
+    expect(core.pointerCount).toBe(0)
+  })
+})
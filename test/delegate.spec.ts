@@ -0,0 +1,178 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { BaseRecognizer, createGestuelle } from '../src/gestuelle'
+import type { TapEventDetail } from '../src/types'
+import { touch } from './utils'
+
+/**
+ * Recognizes nothing, only there to be registered.
+ */
+class IdleRecognizer extends BaseRecognizer {
+  readonly name = 'idle'
+  readonly events = [] as const
+
+  process(): void {}
+}
+
+describe('Delegation', () => {
+  let list: HTMLElement
+  let rows: HTMLElement[]
+  let g: ReturnType<typeof createGestuelle>
+
+  let tap: ReturnType<typeof vi.fn>
+  let doubleTap: ReturnType<typeof vi.fn>
+  let panStart: ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    list = document.createElement('ul')
+    rows = [0, 1, 2].map(() => {
+      const row = document.createElement('li')
+      row.className = 'row'
+      row.appendChild(document.createElement('span'))
+      list.appendChild(row)
+      return row
+    })
+    document.body.appendChild(list)
+
+    tap = vi.fn()
+    doubleTap = vi.fn()
+    panStart = vi.fn()
+
+    list.addEventListener('tap', tap)
+    list.addEventListener('doubletap', doubleTap)
+    list.addEventListener('panstart', panStart)
+
+    g = createGestuelle(list, { delegate: '.row' })
+  })
+
+  afterEach(() => {
+    g.destroy()
+    list.remove()
+  })
+
+  it('should dispatch the events from the matching descendant', () => {
+    const rowTap = vi.fn()
+    rows[1].addEventListener('tap', rowTap)
+
+    touch('pointerdown', 1, 10, 10, rows[1].firstElementChild as Element)
+    touch('pointerup', 1, 10, 10, rows[1].firstElementChild as Element)
+
+    expect(rowTap).toHaveBeenCalledTimes(1)
+    expect(tap).toHaveBeenCalledTimes(1)
+    expect(tap.mock.calls[0][0].target).toBe(rows[1])
+    const detail: TapEventDetail = tap.mock.calls[0][0].detail
+    expect(detail.target).toBe(rows[1])
+  })
+
+  it('should ignore the pointers outside of the matching descendants', () => {
+    touch('pointerdown', 1, 10, 10, list)
+    touch('pointerup', 1, 10, 10, list)
+
+    expect(tap).not.toHaveBeenCalled()
+  })
+
+  it('should recognize the gestures on the descendants added later', () => {
+    const row = document.createElement('li')
+    row.className = 'row'
+    list.appendChild(row)
+
+    touch('pointerdown', 1, 10, 10, row)
+    touch('pointermove', 1, 10, 60, row)
+
+    expect(panStart).toHaveBeenCalledTimes(1)
+    expect(panStart.mock.calls[0][0].detail.target).toBe(row)
+  })
+
+  it('should track the gestures of each descendant apart', () => {
+    touch('pointerdown', 1, 10, 10, rows[0])
+    touch('pointerup', 1, 10, 10, rows[0])
+    touch('pointerdown', 1, 10, 10, rows[2])
+    touch('pointerup', 1, 10, 10, rows[2])
+    touch('pointerdown', 1, 10, 10, rows[0])
+    touch('pointerup', 1, 10, 10, rows[0])
+
+    expect(tap).toHaveBeenCalledTimes(3)
+    expect(tap.mock.calls[1][0].detail).toMatchObject({ target: rows[2], tapCount: 1 })
+    expect(tap.mock.calls[2][0].detail).toMatchObject({ target: rows[0], tapCount: 2 })
+    expect(doubleTap).toHaveBeenCalledTimes(1)
+    expect(doubleTap.mock.calls[0][0].detail.target).toBe(rows[0])
+  })
+
+  it('should pan several descendants at the same time', () => {
+    g.setConfig({ swipe: { enabled: false } })
+    const panMove = vi.fn()
+    const panEnd = vi.fn()
+    list.addEventListener('panmove', panMove)
+    list.addEventListener('panend', panEnd)
+
+    touch('pointerdown', 1, 10, 10, rows[0])
+    touch('pointermove', 1, 10, 40, rows[0])
+    touch('pointerdown', 2, 10, 100, rows[1])
+    touch('pointermove', 2, 10, 140, rows[1])
+    touch('pointermove', 1, 10, 50, rows[0])
+    touch('pointerup', 2, 10, 140, rows[1])
+    touch('pointerup', 1, 10, 50, rows[0])
+
+    expect(panStart.mock.calls.map(([event]) => event.detail.target)).toEqual([rows[0], rows[1]])
+    expect(panMove).toHaveBeenCalledTimes(1)
+    expect(panMove.mock.calls[0][0].detail).toMatchObject({ target: rows[0], deltaY: 10 })
+    expect(panEnd.mock.calls.map(([event]) => event.detail.target)).toEqual([rows[1], rows[0]])
+  })
+
+  it('should keep the inertia of a descendant going when touching another one', () => {
+    vi.useFakeTimers()
+    g.setConfig({ pan: { inertia: true }, swipe: { enabled: false } })
+    const panInertia = vi.fn()
+    const panInertiaEnd = vi.fn()
+    list.addEventListener('paninertia', panInertia)
+    list.addEventListener('paninertiaend', panInertiaEnd)
+
+    touch('pointerdown', 1, 10, 10, rows[0])
+    vi.advanceTimersByTime(10)
+    touch('pointermove', 1, 10, 40, rows[0])
+    vi.advanceTimersByTime(10)
+    touch('pointermove', 1, 10, 70, rows[0])
+    touch('pointerup', 1, 10, 70, rows[0])
+    vi.advanceTimersByTime(16)
+    touch('pointerdown', 2, 10, 10, rows[1])
+    touch('pointerup', 2, 10, 10, rows[1])
+
+    expect(panInertiaEnd).not.toHaveBeenCalled()
+    expect(tap.mock.calls[0][0].detail.target).toBe(rows[1])
+
+    const inertiaFrames = panInertia.mock.calls.length
+    vi.advanceTimersByTime(16)
+    vi.useRealTimers()
+
+    expect(panInertia.mock.calls.length).toBeGreaterThan(inertiaFrames)
+    expect(panInertia.mock.calls.at(-1)?.[0].detail.target).toBe(rows[0])
+  })
+
+  it('should NOT add the pointers going down on another descendant to the gesture', () => {
+    touch('pointerdown', 1, 10, 10, rows[0])
+    touch('pointerdown', 2, 10, 50, rows[1])
+    touch('pointerup', 2, 10, 50, rows[1])
+    touch('pointerup', 1, 10, 10, rows[0])
+
+    expect(tap.mock.calls.map(([event]) => event.detail)).toMatchObject([
+      { target: rows[1], pointerCount: 1 },
+      { target: rows[0], pointerCount: 1 },
+    ])
+  })
+
+  it('should create the custom recognizers of each descendant until its gestures are over', () => {
+    g.setConfig({ multiTap: { enabled: false } })
+    const createRecognizer = vi.fn(() => new IdleRecognizer())
+
+    g.register(createRecognizer)
+    touch('pointerdown', 1, 10, 10, rows[0])
+    touch('pointerdown', 2, 10, 50, rows[1])
+    touch('pointerup', 2, 10, 50, rows[1])
+    touch('pointerup', 1, 10, 10, rows[0])
+    touch('pointerdown', 1, 10, 10, rows[0])
+    touch('pointerup', 1, 10, 10, rows[0])
+
+    // Once for the element, then for each descendant, again once the first gestures of the row were over
+    expect(createRecognizer).toHaveBeenCalledTimes(4)
+    expect(() => g.register(new IdleRecognizer())).toThrow()
+  })
+})
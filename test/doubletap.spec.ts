@@ -0,0 +1,107 @@
+import userEvent from '@testing-library/user-event'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createGestuelle } from '../src/gestuelle'
+import type { TapEventDetail } from '../src/types'
+
+describe('Double tap', () => {
+  let gestuelleInstance: ReturnType<typeof createGestuelle>
+  let tapListener: ReturnType<typeof vi.fn>
+  let doubleTapListener: ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    tapListener = vi.fn()
+    doubleTapListener = vi.fn()
+    document.body.addEventListener('tap', tapListener)
+    document.body.addEventListener('doubletap', doubleTapListener)
+  })
+
+  afterEach(() => {
+    document.body.removeEventListener('tap', tapListener)
+    document.body.removeEventListener('doubletap', doubleTapListener)
+    gestuelleInstance.destroy()
+    vi.useRealTimers()
+  })
+
+  it('should trigger doubletap after two quick taps', async () => {
+    gestuelleInstance = createGestuelle(document.body)
+    const user = userEvent.setup()
+
+    await user.pointer('[MouseLeft][MouseLeft]')
+
+    expect(tapListener).toHaveBeenCalledTimes(2)
+    expect(doubleTapListener).toHaveBeenCalledTimes(1)
+
+    const firstTap: TapEventDetail = tapListener.mock.calls[0][0].detail
+    const secondTap: TapEventDetail = tapListener.mock.calls[1][0].detail
+    expect(firstTap.tapCount).toBe(1)
+    expect(secondTap.tapCount).toBe(2)
+
+    const doubleTap: TapEventDetail = doubleTapListener.mock.calls[0][0].detail
+    expect(doubleTap.tapCount).toBe(2)
+  })
+
+  it('should NOT trigger doubletap if taps are too far apart in time', async () => {
+    vi.useFakeTimers()
+    gestuelleInstance = createGestuelle(document.body, { multiTap: { maxInterval: 300 } })
+    const user = userEvent.setup({ advanceTimers: vi.advanceTimersByTime })
+
+    await user.pointer('[MouseLeft]')
+    vi.advanceTimersByTime(400)
+    await user.pointer('[MouseLeft]')
+
+    expect(tapListener).toHaveBeenCalledTimes(2)
+    expect(tapListener.mock.calls[1][0].detail.tapCount).toBe(1)
+    expect(doubleTapListener).not.toHaveBeenCalled()
+  })
+
+  it('should NOT trigger doubletap if taps are too far apart in space', async () => {
+    gestuelleInstance = createGestuelle(document.body, { multiTap: { maxDistance: 20 } })
+    const user = userEvent.setup()
+
+    await user.pointer([
+      { keys: '[MouseLeft]', coords: { clientX: 10, clientY: 10 } },
+      { keys: '[MouseLeft]', coords: { clientX: 60, clientY: 10 } },
+    ])
+
+    expect(tapListener).toHaveBeenCalledTimes(2)
+    expect(doubleTapListener).not.toHaveBeenCalled()
+  })
+
+  it('should trigger on the configured number of taps', async () => {
+    gestuelleInstance = createGestuelle(document.body, { multiTap: { taps: 3 } })
+    const user = userEvent.setup()
+
+    await user.pointer('[MouseLeft][MouseLeft]')
+    expect(doubleTapListener).not.toHaveBeenCalled()
+
+    await user.pointer('[MouseLeft]')
+    expect(doubleTapListener).toHaveBeenCalledTimes(1)
+    expect(doubleTapListener.mock.calls[0][0].detail.tapCount).toBe(3)
+  })
+
+  it('should delay tap until the multi-tap window expired in exclusive mode', async () => {
+    vi.useFakeTimers()
+    gestuelleInstance = createGestuelle(document.body, { multiTap: { maxInterval: 300, exclusive: true } })
+    const user = userEvent.setup({ advanceTimers: vi.advanceTimersByTime })
+
+    await user.pointer('[MouseLeft]')
+    expect(tapListener).not.toHaveBeenCalled()
+
+    vi.advanceTimersByTime(300)
+    expect(tapListener).toHaveBeenCalledTimes(1)
+    expect(tapListener.mock.calls[0][0].detail.tapCount).toBe(1)
+    expect(doubleTapListener).not.toHaveBeenCalled()
+  })
+
+  it('should NOT trigger tap with doubletap in exclusive mode', async () => {
+    vi.useFakeTimers()
+    gestuelleInstance = createGestuelle(document.body, { multiTap: { exclusive: true } })
+    const user = userEvent.setup({ advanceTimers: vi.advanceTimersByTime })
+
+    await user.pointer('[MouseLeft][MouseLeft]')
+    vi.advanceTimersByTime(1000)
+
+    expect(doubleTapListener).toHaveBeenCalledTimes(1)
+    expect(tapListener).not.toHaveBeenCalled()
+  })
+})
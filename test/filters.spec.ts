@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createGestuelle } from '../src/gestuelle'
+import { touch } from './utils'
+
+describe('Filters', () => {
+  let element: HTMLElement
+  let gestuelleInstance: ReturnType<typeof createGestuelle>
+  let listener: ReturnType<typeof vi.fn>
+
+  const types = ['tap', 'panstart', 'panmove', 'panend', 'pinchstart'] as const
+
+  function getEvents(): [string, Record<string, unknown>][] {
+    return listener.mock.calls.map(([event]) => [event.type, event.detail])
+  }
+
+  function pan(init: Parameters<typeof touch>[5] = {}): void {
+    touch('pointerdown', 1, 10, 10, element, init)
+    touch('pointermove', 1, 20, 10, element, init)
+    touch('pointermove', 1, 30, 10, element, init)
+    touch('pointerup', 1, 30, 10, element, init)
+  }
+
+  beforeEach(() => {
+    element = document.createElement('div')
+    document.body.appendChild(element)
+    listener = vi.fn()
+    types.forEach((type) => {
+      element.addEventListener(type, listener)
+    })
+    gestuelleInstance = createGestuelle(element)
+  })
+
+  afterEach(() => {
+    gestuelleInstance.destroy()
+    element.remove()
+  })
+
+  it('should only start the gesture with the allowed buttons', () => {
+    gestuelleInstance.setConfig({ pan: { buttons: [0] } })
+
+    pan({ pointerType: 'mouse', button: 2, buttons: 2 })
+    expect(listener).not.toHaveBeenCalled()
+
+    pan({ pointerType: 'mouse', button: 0, buttons: 1 })
+    expect(getEvents().map(([type]) => type)).toEqual(['panstart', 'panmove', 'panend'])
+  })
+
+  it('should only recognize the gesture with the allowed pointer types', () => {
+    gestuelleInstance.setConfig({ pinch: { pointerTypes: ['touch'] } })
+
+    touch('pointerdown', 1, 40, 50, element, { pointerType: 'pen' })
+    touch('pointerdown', 2, 60, 50, element)
+    touch('pointermove', 1, 30, 50, element, { pointerType: 'pen' })
+    touch('pointermove', 2, 70, 50, element)
+    touch('pointerup', 1, 30, 50, element, { pointerType: 'pen' })
+    touch('pointerup', 2, 70, 50, element)
+
+    expect(getEvents().map(([type]) => type)).not.toContain('pinchstart')
+  })
+
+  it('should require the modifier keys when the pointers go down', () => {
+    gestuelleInstance.setConfig({ pan: { modifierKeys: ['shift'] } })
+
+    pan()
+    expect(listener).not.toHaveBeenCalled()
+
+    pan({ shiftKey: true })
+    expect(getEvents().map(([type]) => type)).toEqual(['panstart', 'panmove', 'panend'])
+  })
+
+  it('should report the buttons and modifier keys', () => {
+    touch('pointerdown', 1, 10, 10, element, { pointerType: 'mouse', button: 1, buttons: 4 })
+    touch('pointermove', 1, 20, 10, element, { pointerType: 'mouse', buttons: 4, shiftKey: true })
+    touch('pointermove', 1, 30, 10, element, { pointerType: 'mouse', buttons: 4, altKey: true })
+
+    expect(getEvents()[0][1]).toMatchObject({ button: 1, buttons: 4, shiftKey: true, altKey: false })
+    expect(getEvents()[1][1]).toMatchObject({ button: 1, buttons: 4, shiftKey: false, altKey: true })
+
+    touch('pointerup', 1, 30, 10, element, { pointerType: 'mouse', button: 1 })
+  })
+})
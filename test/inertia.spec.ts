@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createGestuelle } from '../src/gestuelle'
+import type { PanInertiaEventDetail } from '../src/types'
+import { touch } from './utils'
+
+describe('Pan inertia', () => {
+  let g: ReturnType<typeof createGestuelle>
+
+  let panEnd: ReturnType<typeof vi.fn>
+  let panInertia: ReturnType<typeof vi.fn>
+  let panInertiaEnd: ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+
+    panEnd = vi.fn()
+    panInertia = vi.fn()
+    panInertiaEnd = vi.fn()
+
+    document.body.addEventListener('panend', panEnd)
+    document.body.addEventListener('paninertia', panInertia)
+    document.body.addEventListener('paninertiaend', panInertiaEnd)
+  })
+
+  afterEach(() => {
+    document.body.removeEventListener('panend', panEnd)
+    document.body.removeEventListener('paninertia', panInertia)
+    document.body.removeEventListener('paninertiaend', panInertiaEnd)
+    g.destroy()
+    vi.useRealTimers()
+  })
+
+  function drag() {
+    touch('pointerdown', 1, 0, 0)
+    vi.advanceTimersByTime(400)
+    touch('pointermove', 1, 10, 0)
+    vi.advanceTimersByTime(10)
+    touch('pointermove', 1, 20, 0)
+    touch('pointerup', 1, 20, 0)
+  }
+
+  it('should NOT emit inertia events by default', () => {
+    g = createGestuelle(document.body)
+
+    drag()
+    vi.advanceTimersByTime(1000)
+
+    expect(panEnd).toHaveBeenCalledTimes(1)
+    expect(panInertia).not.toHaveBeenCalled()
+  })
+
+  it('should emit decaying inertia events after the pan ends', () => {
+    g = createGestuelle(document.body, { pan: { inertia: { friction: 0.9 } } })
+
+    drag()
+    vi.advanceTimersByTime(32)
+
+    expect(panInertia).toHaveBeenCalled()
+
+    const first: PanInertiaEventDetail = panInertia.mock.calls[0][0].detail
+    expect(first.velocityX).toBeLessThan(1)
+    expect(first.deltaX).toBeGreaterThan(0)
+    expect(first.offsetX).toBeGreaterThan(20)
+
+    vi.advanceTimersByTime(5000)
+
+    const calls = panInertia.mock.calls
+    const last: PanInertiaEventDetail = calls[calls.length - 1][0].detail
+    expect(last.velocityX).toBeLessThan(first.velocityX)
+    expect(panInertiaEnd).toHaveBeenCalledTimes(1)
+  })
+
+  it('should stop at the bounds', () => {
+    g = createGestuelle(document.body, { pan: { inertia: { bounds: { maxX: 30 } } } })
+
+    drag()
+    vi.advanceTimersByTime(5000)
+
+    const calls = panInertia.mock.calls
+    const last: PanInertiaEventDetail = calls[calls.length - 1][0].detail
+    expect(last.offsetX).toBe(30)
+    expect(panInertiaEnd).toHaveBeenCalledTimes(1)
+  })
+
+  it('should be canceled by a new pointerdown', () => {
+    g = createGestuelle(document.body, { pan: { inertia: true } })
+
+    drag()
+    vi.advanceTimersByTime(32)
+    touch('pointerdown', 2, 50, 0)
+
+    expect(panInertiaEnd).toHaveBeenCalledTimes(1)
+
+    const count = panInertia.mock.calls.length
+    vi.advanceTimersByTime(1000)
+    expect(panInertia).toHaveBeenCalledTimes(count)
+
+    touch('pointerup', 2, 50, 0)
+  })
+})
@@ -0,0 +1,284 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createGestuelle } from '../src/gestuelle'
+import { touch } from './utils'
+
+describe('Keyboard', () => {
+  let element: HTMLElement
+  let gestuelleInstance: ReturnType<typeof createGestuelle>
+  let listener: ReturnType<typeof vi.fn>
+
+  const types = [
+    'tap',
+    'pressstart',
+    'pressend',
+    'presscancel',
+    'swipe',
+    'panstart',
+    'panmove',
+    'panend',
+    'pancancel',
+    'pinchstart',
+    'pinchmove',
+    'pinchend',
+  ] as const
+
+  function key(type: 'keydown' | 'keyup', init: KeyboardEventInit, target: Element = element): KeyboardEvent {
+    const event = new KeyboardEvent(type, { bubbles: true, cancelable: true, ...init })
+    target.dispatchEvent(event)
+    return event
+  }
+
+  function press(keyName: string, target: Element = element): KeyboardEvent {
+    const event = key('keydown', { key: keyName }, target)
+    key('keyup', { key: keyName }, target)
+    return event
+  }
+
+  function getEvents(): [string, Record<string, unknown>][] {
+    return listener.mock.calls.map(([event]) => [event.type, event.detail])
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    element = document.createElement('div')
+    element.getBoundingClientRect = () => new DOMRect(100, 50, 200, 100)
+    document.body.appendChild(element)
+    listener = vi.fn()
+    types.forEach((type) => {
+      element.addEventListener(type, listener)
+    })
+    gestuelleInstance = createGestuelle(element, { keyboard: true })
+  })
+
+  afterEach(() => {
+    gestuelleInstance.destroy()
+    element.remove()
+    vi.useRealTimers()
+  })
+
+  it('should tap with Enter at the center of the element', () => {
+    const event = key('keydown', { key: 'Enter' })
+    key('keyup', { key: 'Enter' })
+
+    expect(event.defaultPrevented).toBe(true)
+    expect(getEvents()).toEqual([
+      ['tap', expect.objectContaining({ x: 200, y: 100, pointerType: 'keyboard', tapCount: 1 })],
+    ])
+  })
+
+  it('should press while holding Space', () => {
+    key('keydown', { key: ' ' })
+    vi.advanceTimersByTime(500)
+    key('keydown', { key: ' ', repeat: true })
+    vi.advanceTimersByTime(100)
+    key('keyup', { key: ' ' })
+
+    const events = getEvents()
+    expect(events.map(([type]) => type)).toEqual(['pressstart', 'pressend'])
+    expect(events[1][1]).toMatchObject({ duration: 600, pointerType: 'keyboard' })
+  })
+
+  it('should press right away with the context menu key', () => {
+    key('keydown', { key: 'ContextMenu' })
+    expect(getEvents().map(([type]) => type)).toEqual(['pressstart'])
+
+    key('keyup', { key: 'ContextMenu' })
+    expect(getEvents().map(([type]) => type)).toEqual(['pressstart', 'pressend'])
+  })
+
+  it('should pan by steps with the arrow keys', () => {
+    key('keydown', { key: 'ArrowRight' })
+    key('keydown', { key: 'ArrowRight', repeat: true })
+    key('keydown', { key: 'ArrowUp' })
+    key('keyup', { key: 'ArrowRight' })
+    key('keyup', { key: 'ArrowUp' })
+
+    const events = getEvents()
+    expect(events.map(([type]) => type)).toEqual(['panstart', 'panmove', 'panmove', 'panmove', 'panend'])
+    expect(events[3][1]).toMatchObject({ deltaX: 0, deltaY: -10, offsetX: 20, offsetY: -10, x: 220, y: 90 })
+    expect(events[4][1]).toMatchObject({ offsetX: 20, offsetY: -10 })
+  })
+
+  it('should swipe with the arrow keys when configured', () => {
+    gestuelleInstance.setConfig({ keyboard: { arrows: 'swipe' } })
+
+    key('keydown', { key: 'ArrowLeft' })
+    key('keydown', { key: 'ArrowLeft', repeat: true })
+    key('keyup', { key: 'ArrowLeft' })
+
+    expect(getEvents()).toEqual([['swipe', expect.objectContaining({ direction: 'left', velocityX: -0.3 })]])
+  })
+
+  it('should leave the arrows off the axis of the pan to the page', () => {
+    gestuelleInstance.setConfig({ pan: { direction: 'vertical' } })
+
+    const left = key('keydown', { key: 'ArrowLeft' })
+    const down = key('keydown', { key: 'ArrowDown' })
+    key('keyup', { key: 'ArrowLeft' })
+    key('keyup', { key: 'ArrowDown' })
+
+    expect(left.defaultPrevented).toBe(false)
+    expect(down.defaultPrevented).toBe(true)
+    expect(getEvents().map(([type]) => type)).toEqual(['panstart', 'panmove', 'panend'])
+    expect(getEvents()[1][1]).toMatchObject({ deltaX: 0, deltaY: 10 })
+    expect(element.getAttribute('aria-keyshortcuts')).toBe('Enter Space ContextMenu ArrowUp ArrowDown Plus = -')
+  })
+
+  it('should only swipe along the axis of the pan', () => {
+    gestuelleInstance.setConfig({ keyboard: { arrows: 'swipe' }, pan: { direction: 'horizontal' } })
+
+    const up = key('keydown', { key: 'ArrowUp' })
+    key('keydown', { key: 'ArrowRight' })
+
+    expect(up.defaultPrevented).toBe(false)
+    expect(getEvents()).toEqual([['swipe', expect.objectContaining({ direction: 'right' })]])
+  })
+
+  it('should pinch with the zoom keys', () => {
+    gestuelleInstance.setConfig({ keyboard: { zoomStep: 2 } })
+
+    key('keydown', { key: '+' })
+    key('keydown', { key: '+', repeat: true })
+    key('keydown', { key: '-' })
+    key('keyup', { key: '+' })
+    key('keyup', { key: '-' })
+
+    const events = getEvents()
+    expect(events.map(([type]) => type)).toEqual(['pinchstart', 'pinchmove', 'pinchmove', 'pinchmove', 'pinchend'])
+    expect(events[2][1]).toMatchObject({ scale: 4, deltaScale: 2 })
+    expect(events[4][1]).toMatchObject({ scale: 2, centerX: 200, centerY: 100 })
+  })
+
+  it('should leave the keys of the disabled gestures and the shortcuts alone', () => {
+    gestuelleInstance.disable('pinch')
+
+    const zoom = key('keydown', { key: '+' })
+    const shortcut = key('keydown', { key: 'Enter', ctrlKey: true })
+
+    expect(zoom.defaultPrevented).toBe(false)
+    expect(shortcut.defaultPrevented).toBe(false)
+    expect(listener).not.toHaveBeenCalled()
+  })
+
+  it('should leave the keys of the fields and buttons inside the element alone', () => {
+    const input = document.createElement('input')
+    const button = document.createElement('button')
+    element.append(input, button)
+
+    const inputEvents = [' ', 'Enter', 'ArrowRight', '+', '-'].map((keyName) => press(keyName, input))
+    const buttonEvents = ['Enter', ' '].map((keyName) => press(keyName, button))
+
+    expect([...inputEvents, ...buttonEvents].some((event) => event.defaultPrevented)).toBe(false)
+    expect(listener).not.toHaveBeenCalled()
+  })
+
+  it('should only handle the keys of the focused descendant in delegated mode', () => {
+    gestuelleInstance.setConfig({ delegate: '.row' })
+    const row = document.createElement('div')
+    row.className = 'row'
+    const input = document.createElement('input')
+    row.appendChild(input)
+    element.appendChild(row)
+
+    const inputEvent = press('Enter', input)
+    const elementEvent = press('Enter')
+    const rowEvent = press('Enter', row)
+
+    expect(inputEvent.defaultPrevented).toBe(false)
+    expect(elementEvent.defaultPrevented).toBe(false)
+    expect(rowEvent.defaultPrevented).toBe(true)
+    expect(getEvents()).toEqual([['tap', expect.objectContaining({ target: row, pointerType: 'keyboard' })]])
+  })
+
+  it('should not start a refused gesture again until its keys are released', () => {
+    const refuse = (event: Event) => event.preventDefault()
+    element.addEventListener('panstart', refuse)
+    element.addEventListener('pinchstart', refuse)
+
+    key('keydown', { key: 'ArrowRight' })
+    key('keydown', { key: 'ArrowRight', repeat: true })
+    key('keydown', { key: 'ArrowDown' })
+    key('keydown', { key: '+' })
+    key('keydown', { key: '+', repeat: true })
+    key('keyup', { key: 'ArrowRight' })
+    key('keyup', { key: 'ArrowDown' })
+    key('keyup', { key: '+' })
+
+    expect(getEvents().map(([type]) => type)).toEqual(['panstart', 'pinchstart'])
+
+    press('ArrowLeft')
+    press('-')
+
+    expect(getEvents().map(([type]) => type)).toEqual(['panstart', 'pinchstart', 'panstart', 'pinchstart'])
+  })
+
+  it('should apply the pointer type and modifier key filters of the gestures', () => {
+    gestuelleInstance.setConfig({
+      tap: { pointerTypes: ['touch'] },
+      press: { pointerTypes: ['touch'] },
+      pan: { modifierKeys: ['shift'] },
+      pinch: { pointerTypes: ['touch', 'keyboard'] },
+    })
+
+    const enter = press('Enter')
+    const arrow = press('ArrowRight')
+    key('keydown', { key: 'ArrowRight', shiftKey: true })
+    key('keyup', { key: 'ArrowRight' })
+    press('+')
+
+    expect(enter.defaultPrevented).toBe(false)
+    expect(arrow.defaultPrevented).toBe(false)
+    expect(getEvents().map(([type]) => type)).toEqual([
+      'panstart',
+      'panmove',
+      'panend',
+      'pinchstart',
+      'pinchmove',
+      'pinchend',
+    ])
+    expect(element.getAttribute('aria-keyshortcuts')).toBe('Plus = -')
+  })
+
+  it('should ignore the keys while pointers are down', () => {
+    touch('pointerdown', 1, 10, 10, element)
+    key('keydown', { key: 'ArrowDown' })
+    touch('pointerup', 1, 10, 10, element)
+
+    expect(getEvents().map(([type]) => type)).not.toContain('panstart')
+  })
+
+  it('should cancel the gestures when losing the focus', () => {
+    key('keydown', { key: 'ArrowDown' })
+    key('keydown', { key: 'ContextMenu' })
+    element.dispatchEvent(new FocusEvent('focusout', { bubbles: true }))
+
+    expect(getEvents().map(([type]) => type)).toEqual(['panstart', 'panmove', 'pressstart', 'presscancel', 'pancancel'])
+  })
+
+  it('should make the element focusable and describe its keys', () => {
+    expect(element.getAttribute('tabindex')).toBe('0')
+    expect(element.getAttribute('aria-keyshortcuts')).toBe(
+      'Enter Space ContextMenu ArrowLeft ArrowRight ArrowUp ArrowDown Plus = -',
+    )
+
+    gestuelleInstance.disable('pan')
+    expect(element.getAttribute('aria-keyshortcuts')).toBe('Enter Space ContextMenu Plus = -')
+  })
+
+  it('should restore the attributes once disabled', () => {
+    const button = document.createElement('button')
+    button.setAttribute('aria-keyshortcuts', 'Alt+K')
+    document.body.appendChild(button)
+    const buttonInstance = createGestuelle(button, { keyboard: true })
+
+    expect(button.hasAttribute('tabindex')).toBe(false)
+
+    buttonInstance.destroy()
+    gestuelleInstance.setConfig({ keyboard: false })
+
+    expect(button.getAttribute('aria-keyshortcuts')).toBe('Alt+K')
+    expect(element.hasAttribute('tabindex')).toBe(false)
+    expect(element.hasAttribute('aria-keyshortcuts')).toBe(false)
+    button.remove()
+  })
+})
@@ -0,0 +1,143 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createGestuelle } from '../src/gestuelle'
+import type { PanEventDetail, SwipeEventDetail, TapEventDetail } from '../src/types'
+import { touch } from './utils'
+
+describe('Multi-finger', () => {
+  let g: ReturnType<typeof createGestuelle>
+
+  let tap: ReturnType<typeof vi.fn>
+  let panStart: ReturnType<typeof vi.fn>
+  let panMove: ReturnType<typeof vi.fn>
+  let panEnd: ReturnType<typeof vi.fn>
+  let swipe: ReturnType<typeof vi.fn>
+  let pinchStart: ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    tap = vi.fn()
+    panStart = vi.fn()
+    panMove = vi.fn()
+    panEnd = vi.fn()
+    swipe = vi.fn()
+    pinchStart = vi.fn()
+
+    document.body.addEventListener('tap', tap)
+    document.body.addEventListener('panstart', panStart)
+    document.body.addEventListener('panmove', panMove)
+    document.body.addEventListener('panend', panEnd)
+    document.body.addEventListener('swipe', swipe)
+    document.body.addEventListener('pinchstart', pinchStart)
+  })
+
+  afterEach(() => {
+    document.body.removeEventListener('tap', tap)
+    document.body.removeEventListener('panstart', panStart)
+    document.body.removeEventListener('panmove', panMove)
+    document.body.removeEventListener('panend', panEnd)
+    document.body.removeEventListener('swipe', swipe)
+    document.body.removeEventListener('pinchstart', pinchStart)
+    g.destroy()
+  })
+
+  it('should report a single pointer by default', () => {
+    g = createGestuelle(document.body)
+
+    touch('pointerdown', 1, 10, 10)
+    touch('pointerup', 1, 10, 10)
+
+    expect(tap).toHaveBeenCalledTimes(1)
+    expect(tap.mock.calls[0][0].detail.pointerCount).toBe(1)
+  })
+
+  it('should trigger a two-finger tap', () => {
+    g = createGestuelle(document.body, { tap: { pointers: 2 } })
+
+    touch('pointerdown', 1, 10, 10)
+    touch('pointerdown', 2, 30, 10)
+    touch('pointerup', 1, 10, 10)
+    expect(tap).not.toHaveBeenCalled()
+
+    touch('pointerup', 2, 30, 10)
+    expect(tap).toHaveBeenCalledTimes(1)
+
+    const detail: TapEventDetail = tap.mock.calls[0][0].detail
+    expect(detail.pointerCount).toBe(2)
+    expect(detail.x).toBe(20)
+  })
+
+  it('should NOT trigger a one-finger tap when two are required', () => {
+    g = createGestuelle(document.body, { tap: { pointers: 2 } })
+
+    touch('pointerdown', 1, 10, 10)
+    touch('pointerup', 1, 10, 10)
+
+    expect(tap).not.toHaveBeenCalled()
+  })
+
+  it('should pan with two fingers', () => {
+    g = createGestuelle(document.body, { pan: { pointers: 2 } })
+
+    touch('pointerdown', 1, 10, 10)
+    touch('pointermove', 1, 10, 30)
+    expect(panStart).not.toHaveBeenCalled()
+
+    touch('pointerdown', 2, 50, 30)
+    touch('pointermove', 1, 10, 40)
+    touch('pointermove', 2, 50, 40)
+
+    expect(panStart).toHaveBeenCalledTimes(1)
+    expect(panMove).toHaveBeenCalledTimes(1)
+    expect(pinchStart).not.toHaveBeenCalled()
+
+    const detail: PanEventDetail = panMove.mock.calls[0][0].detail
+    expect(detail.pointerCount).toBe(2)
+    expect(detail.x).toBe(30)
+    expect(detail.y).toBe(40)
+    expect(detail.offsetY).toBe(10)
+    expect(detail.deltaY).toBe(5)
+
+    // Ends on the first release, the remaining pointer does not pan
+    touch('pointerup', 1, 10, 40)
+    expect(panEnd).toHaveBeenCalledTimes(1)
+
+    touch('pointermove', 2, 50, 100)
+    expect(panMove).toHaveBeenCalledTimes(1)
+
+    touch('pointerup', 2, 50, 100)
+    expect(panEnd).toHaveBeenCalledTimes(1)
+  })
+
+  it('should swipe with three fingers', () => {
+    g = createGestuelle(document.body, { swipe: { pointers: 3 } })
+
+    touch('pointerdown', 1, 10, 10)
+    touch('pointerdown', 2, 20, 10)
+    touch('pointerdown', 3, 30, 10)
+    touch('pointermove', 1, 70, 10)
+    touch('pointermove', 2, 80, 10)
+    touch('pointermove', 3, 90, 10)
+    touch('pointerup', 1, 70, 10)
+    touch('pointerup', 2, 80, 10)
+    touch('pointerup', 3, 90, 10)
+
+    expect(panStart).not.toHaveBeenCalled()
+    expect(swipe).toHaveBeenCalledTimes(1)
+
+    const detail: SwipeEventDetail = swipe.mock.calls[0][0].detail
+    expect(detail.pointerCount).toBe(3)
+    expect(detail.direction).toBe('right')
+  })
+
+  it('should NOT swipe with one finger when three are required', () => {
+    g = createGestuelle(document.body, { swipe: { pointers: 3 } })
+
+    touch('pointerdown', 1, 10, 10)
+    touch('pointermove', 1, 40, 10)
+    touch('pointermove', 1, 70, 10)
+    touch('pointerup', 1, 70, 10)
+
+    expect(panStart).toHaveBeenCalledTimes(1)
+    expect(panEnd).toHaveBeenCalledTimes(1)
+    expect(swipe).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,147 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createGestuelle } from '../src/gestuelle'
+import { touch } from './utils'
+
+describe('Nested instances', () => {
+  let list: HTMLElement
+  let card: HTMLElement
+  let listInstance: ReturnType<typeof createGestuelle>
+  let cardInstance: ReturnType<typeof createGestuelle>
+
+  let listPanStart: ReturnType<typeof vi.fn>
+  let listPressStart: ReturnType<typeof vi.fn>
+  let listPressCancel: ReturnType<typeof vi.fn>
+  let cardPanStart: ReturnType<typeof vi.fn>
+  let cardTap: ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+
+    list = document.createElement('div')
+    card = document.createElement('div')
+    list.appendChild(card)
+    document.body.appendChild(list)
+
+    listPanStart = vi.fn()
+    listPressStart = vi.fn()
+    listPressCancel = vi.fn()
+    cardPanStart = vi.fn()
+    cardTap = vi.fn()
+
+    list.addEventListener('panstart', listPanStart)
+    list.addEventListener('pressstart', listPressStart)
+    list.addEventListener('presscancel', listPressCancel)
+    card.addEventListener('panstart', cardPanStart)
+    card.addEventListener('tap', cardTap)
+
+    listInstance = createGestuelle(list, { pan: { direction: 'vertical' }, press: { minDuration: 300 } })
+  })
+
+  afterEach(() => {
+    cardInstance.destroy()
+    listInstance.destroy()
+    list.remove()
+    vi.useRealTimers()
+  })
+
+  it('should cancel the gestures of the ancestors once the inner one claims the pointers', () => {
+    cardInstance = createGestuelle(card, { pan: { direction: 'horizontal' }, press: { enabled: false } })
+
+    touch('pointerdown', 1, 10, 10, card)
+    vi.advanceTimersByTime(300)
+    expect(listPressStart).toHaveBeenCalledTimes(1)
+
+    touch('pointermove', 1, 40, 10, card)
+    touch('pointermove', 1, 40, 60, card)
+    touch('pointerup', 1, 40, 60, card)
+
+    expect(cardPanStart).toHaveBeenCalledTimes(1)
+    expect(listPressCancel).toHaveBeenCalledTimes(1)
+    expect(listPanStart).not.toHaveBeenCalled()
+  })
+
+  it('should give the inner instance the first claim', () => {
+    cardInstance = createGestuelle(card)
+
+    touch('pointerdown', 1, 10, 10, card)
+    touch('pointermove', 1, 10, 60, card)
+
+    expect(cardPanStart).toHaveBeenCalledTimes(1)
+    expect(listPanStart).not.toHaveBeenCalled()
+  })
+
+  it('should NOT let the ancestors recognize a gesture the inner one declined', () => {
+    cardInstance = createGestuelle(card, { pan: { direction: 'horizontal' } })
+
+    touch('pointerdown', 1, 10, 10, card)
+    touch('pointermove', 1, 10, 60, card)
+
+    expect(cardPanStart).not.toHaveBeenCalled()
+    expect(listPanStart).not.toHaveBeenCalled()
+  })
+
+  it('should let the ancestors recognize a gesture the inner one declined with yieldToParent', () => {
+    cardInstance = createGestuelle(card, { pan: { direction: 'horizontal' }, yieldToParent: true })
+
+    touch('pointerdown', 1, 10, 10, card)
+    touch('pointermove', 1, 10, 60, card)
+
+    expect(cardPanStart).not.toHaveBeenCalled()
+    expect(listPanStart).toHaveBeenCalledTimes(1)
+  })
+
+  it('should NOT cancel the gesture the ancestors have begun when the inner one is flicked', () => {
+    cardInstance = createGestuelle(card, { pan: { direction: 'horizontal' }, yieldToParent: true })
+    listInstance.setConfig({ pan: { inertia: true }, swipe: { enabled: false } })
+    const listener = vi.fn()
+    const cardSwipe = vi.fn()
+    ;['panmove', 'panend', 'pancancel', 'paninertia'].forEach((type) => {
+      list.addEventListener(type, listener)
+    })
+    card.addEventListener('swipe', cardSwipe)
+
+    touch('pointerdown', 1, 10, 10, card)
+    vi.advanceTimersByTime(10)
+    touch('pointermove', 1, 10, 40, card)
+    vi.advanceTimersByTime(10)
+    touch('pointermove', 1, 10, 80, card)
+    touch('pointerup', 1, 10, 80, card)
+    vi.advanceTimersByTime(16)
+
+    expect(listPanStart).toHaveBeenCalledTimes(1)
+    expect(listener.mock.calls.map(([event]) => event.type)).toEqual(['panmove', 'panend', 'paninertia'])
+    expect(cardSwipe).not.toHaveBeenCalled()
+  })
+
+  it('should NOT cancel the gesture the ancestors have begun for one the inner one recognizes on release', () => {
+    cardInstance = createGestuelle(card, { pan: { enabled: false }, yieldToParent: true })
+    listInstance.setConfig({ swipe: { enabled: false } })
+    const listPanEnd = vi.fn()
+    const cardSwipe = vi.fn()
+    list.addEventListener('panend', listPanEnd)
+    card.addEventListener('swipe', cardSwipe)
+
+    touch('pointerdown', 1, 10, 10, card)
+    vi.advanceTimersByTime(10)
+    touch('pointermove', 1, 10, 40, card)
+    vi.advanceTimersByTime(10)
+    touch('pointermove', 1, 10, 80, card)
+    touch('pointerup', 1, 10, 80, card)
+
+    expect(cardSwipe).toHaveBeenCalledTimes(1)
+    expect(listPanEnd).toHaveBeenCalledTimes(1)
+  })
+
+  it('should NOT dispatch the tap of the ancestors along the inner one', () => {
+    cardInstance = createGestuelle(card)
+    const listTap = vi.fn()
+    list.addEventListener('tap', listTap)
+
+    touch('pointerdown', 1, 10, 10, card)
+    touch('pointerup', 1, 10, 10, card)
+
+    list.removeEventListener('tap', listTap)
+    expect(cardTap).toHaveBeenCalledTimes(1)
+    expect(listTap).not.toHaveBeenCalled()
+  })
+})
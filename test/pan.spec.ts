@@ -1,6 +1,8 @@
 import userEvent from '@testing-library/user-event'
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 import { createGestuelle } from '../src/gestuelle'
+import type { PanEventDetail } from '../src/types'
+import { touch } from './utils'
 
 describe('Pan', () => {
   let gestuelleInstance: ReturnType<typeof createGestuelle>
@@ -67,4 +69,52 @@ describe('Pan', () => {
     expect(panMoveListener).not.toHaveBeenCalled()
     expect(panEndListener).not.toHaveBeenCalled()
   })
+
+  describe('with a direction', () => {
+    beforeEach(() => {
+      gestuelleInstance.destroy()
+      gestuelleInstance = createGestuelle(document.body, { pan: { threshold: 5, direction: 'horizontal' } })
+    })
+
+    it('should pan along the allowed axis', () => {
+      touch('pointerdown', 1, 10, 10)
+      const move = touch('pointermove', 1, 30, 12)
+      touch('pointerup', 1, 30, 12)
+
+      expect(panStartListener).toHaveBeenCalledTimes(1)
+      expect(move.defaultPrevented).toBe(true)
+    })
+
+    it('should decline the pan when moving along the other axis first', () => {
+      touch('pointerdown', 1, 10, 10)
+      const move = touch('pointermove', 1, 12, 30)
+      touch('pointermove', 1, 80, 30)
+      touch('pointerup', 1, 80, 30)
+
+      expect(panStartListener).not.toHaveBeenCalled()
+      expect(panMoveListener).not.toHaveBeenCalled()
+      expect(panEndListener).not.toHaveBeenCalled()
+      expect(move.defaultPrevented).toBe(false)
+    })
+  })
+
+  describe('with a locked axis', () => {
+    beforeEach(() => {
+      gestuelleInstance.destroy()
+      gestuelleInstance = createGestuelle(document.body, { pan: { threshold: 5, lockAxis: true } })
+    })
+
+    it('should zero the movement along the other axis', () => {
+      touch('pointerdown', 1, 10, 10)
+      touch('pointermove', 1, 10, 30)
+      touch('pointermove', 1, 40, 50)
+      touch('pointerup', 1, 40, 50)
+
+      const detail: PanEventDetail = panMoveListener.mock.calls[0][0].detail
+      expect(detail.deltaX).toBe(0)
+      expect(detail.offsetX).toBe(0)
+      expect(detail.deltaY).toBe(20)
+      expect(detail.offsetY).toBe(40)
+    })
+  })
 })
@@ -1,6 +1,8 @@
 import userEvent from '@testing-library/user-event'
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 import { createGestuelle } from '../src/gestuelle'
+import type { PinchEventDetail } from '../src/types'
+import { touch } from './utils'
 
 describe('Pinch', () => {
   let g: ReturnType<typeof createGestuelle>
@@ -8,15 +10,18 @@ describe('Pinch', () => {
   let pinchStart: ReturnType<typeof vi.fn>
   let pinchMove: ReturnType<typeof vi.fn>
   let pinchEnd: ReturnType<typeof vi.fn>
+  let pinchCancel: ReturnType<typeof vi.fn>
 
   beforeEach(() => {
     pinchStart = vi.fn()
     pinchMove = vi.fn()
     pinchEnd = vi.fn()
+    pinchCancel = vi.fn()
 
     document.body.addEventListener('pinchstart', pinchStart)
     document.body.addEventListener('pinchmove', pinchMove)
     document.body.addEventListener('pinchend', pinchEnd)
+    document.body.addEventListener('pinchcancel', pinchCancel)
 
     g = createGestuelle(document.body)
   })
@@ -25,6 +30,7 @@ describe('Pinch', () => {
     document.body.removeEventListener('pinchstart', pinchStart)
     document.body.removeEventListener('pinchmove', pinchMove)
     document.body.removeEventListener('pinchend', pinchEnd)
+    document.body.removeEventListener('pinchcancel', pinchCancel)
     g.destroy()
   })
 
@@ -46,4 +52,143 @@ describe('Pinch', () => {
 
     expect(pinchEnd).toHaveBeenCalledTimes(1)
   })
+
+  it('should report scale and center relative to the gesture start', async () => {
+    const user = userEvent.setup()
+
+    await user.pointer([
+      { keys: '[TouchA>]', target: document.body, coords: { clientX: 40, clientY: 10 } },
+      { keys: '[TouchB>]', target: document.body, coords: { clientX: 60, clientY: 10 } },
+      { pointerName: 'TouchA', coords: { clientX: 20, clientY: 10 } },
+      { pointerName: 'TouchB', coords: { clientX: 100, clientY: 10 } },
+    ])
+
+    const first: PinchEventDetail = pinchMove.mock.calls[0][0].detail
+    expect(first.scale).toBe(2)
+    expect(first.deltaScale).toBe(2)
+    expect(first.centerX).toBe(40)
+    expect(first.offsetX).toBe(-10)
+
+    const second: PinchEventDetail = pinchMove.mock.calls[1][0].detail
+    expect(second.scale).toBe(4)
+    expect(second.deltaScale).toBe(2)
+    expect(second.centerX).toBe(60)
+    expect(second.centerY).toBe(10)
+    expect(second.offsetX).toBe(10)
+    expect(second.offsetY).toBe(0)
+
+    await user.pointer([{ keys: '[/TouchA]' }, { keys: '[/TouchB]' }])
+
+    const end: PinchEventDetail = pinchEnd.mock.calls[0][0].detail
+    expect(end.scale).toBe(4)
+  })
+
+  it('should NOT start pinching while the distance did not change enough', async () => {
+    const user = userEvent.setup()
+
+    await user.pointer([
+      { keys: '[TouchA>]', target: document.body, coords: { clientX: 10, clientY: 10 } },
+      { keys: '[TouchB>]', target: document.body, coords: { clientX: 110, clientY: 10 } },
+      { pointerName: 'TouchA', coords: { clientX: 12, clientY: 10 } },
+      { pointerName: 'TouchB', coords: { clientX: 112, clientY: 10 } },
+    ])
+
+    expect(pinchStart).not.toHaveBeenCalled()
+
+    await user.pointer([{ keys: '[/TouchA]' }, { keys: '[/TouchB]' }])
+  })
+
+  it('should trigger pinchcancel on pointercancel', () => {
+    touch('pointerdown', 1, 50, 10)
+    touch('pointerdown', 2, 60, 10)
+    touch('pointermove', 1, 20, 10)
+
+    expect(pinchStart).toHaveBeenCalledTimes(1)
+
+    touch('pointercancel', 1, 20, 10)
+
+    expect(pinchCancel).toHaveBeenCalledTimes(1)
+    expect(pinchEnd).not.toHaveBeenCalled()
+  })
+
+  describe('with a third pointer', () => {
+    it('should ignore it by default', () => {
+      touch('pointerdown', 1, 50, 10)
+      touch('pointerdown', 2, 60, 10)
+      touch('pointermove', 1, 20, 10)
+      touch('pointerdown', 3, 200, 10)
+      touch('pointermove', 3, 300, 10)
+      touch('pointerup', 3, 300, 10)
+
+      expect(pinchMove).toHaveBeenCalledTimes(1)
+      expect(pinchEnd).not.toHaveBeenCalled()
+      expect(pinchCancel).not.toHaveBeenCalled()
+
+      touch('pointermove', 2, 80, 10)
+      expect(pinchMove).toHaveBeenCalledTimes(2)
+
+      touch('pointerup', 1, 20, 10)
+      touch('pointerup', 2, 80, 10)
+      expect(pinchEnd).toHaveBeenCalledTimes(1)
+    })
+
+    it('should cancel the pinch until all pointers are released', () => {
+      g.destroy()
+      g = createGestuelle(document.body, { pinch: { extraPointers: 'cancel' } })
+
+      touch('pointerdown', 1, 50, 10)
+      touch('pointerdown', 2, 60, 10)
+      touch('pointermove', 1, 20, 10)
+      touch('pointerdown', 3, 200, 10)
+
+      expect(pinchCancel).toHaveBeenCalledTimes(1)
+
+      touch('pointerup', 3, 200, 10)
+      touch('pointermove', 2, 120, 10)
+      touch('pointerup', 1, 20, 10)
+      touch('pointerup', 2, 120, 10)
+
+      expect(pinchMove).toHaveBeenCalledTimes(1)
+      expect(pinchEnd).not.toHaveBeenCalled()
+
+      // Recognizes gestures again once every pointer was released
+      touch('pointerdown', 4, 50, 10)
+      touch('pointerdown', 5, 60, 10)
+      touch('pointermove', 4, 20, 10)
+      touch('pointerup', 4, 20, 10)
+      touch('pointerup', 5, 60, 10)
+
+      expect(pinchStart).toHaveBeenCalledTimes(2)
+      expect(pinchEnd).toHaveBeenCalledTimes(1)
+    })
+
+    it('should rebase the pinch on the newest two pointers', () => {
+      g.destroy()
+      g = createGestuelle(document.body, { pinch: { extraPointers: 'rebase' } })
+
+      touch('pointerdown', 1, 40, 10)
+      touch('pointerdown', 2, 60, 10)
+      touch('pointermove', 1, 20, 10)
+      touch('pointerdown', 3, 140, 10)
+
+      expect(pinchMove.mock.calls[0][0].detail.scale).toBe(2)
+
+      // The first pointer is dropped, the other two keep the scale going from 2
+      touch('pointermove', 1, 0, 10)
+      expect(pinchMove).toHaveBeenCalledTimes(1)
+
+      touch('pointermove', 3, 220, 10)
+      expect(pinchMove).toHaveBeenCalledTimes(2)
+
+      const detail: PinchEventDetail = pinchMove.mock.calls[1][0].detail
+      expect(detail.scale).toBe(4)
+      expect(detail.deltaScale).toBe(2)
+
+      touch('pointerup', 2, 60, 10)
+      expect(pinchEnd).toHaveBeenCalledTimes(1)
+
+      touch('pointerup', 1, 0, 10)
+      touch('pointerup', 3, 220, 10)
+    })
+  })
 })
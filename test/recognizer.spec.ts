@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { BaseRecognizer, createGestuelle } from '../src/gestuelle'
+import { type GestureConfig, type GestureEventDetail, type RecognizerInput, RecognizerState } from '../src/types'
+import { touch } from './utils'
+
+interface EdgeSwipeEventDetail extends GestureEventDetail {
+  distance: number
+}
+
+declare module '../src/types' {
+  interface GestuelleEventMap {
+    edgeswipe: CustomEvent<EdgeSwipeEventDetail>
+  }
+
+  interface GestureConfigMap {
+    edgeSwipe: GestureConfig
+  }
+}
+
+/**
+ * Recognizes a pointer going down near the left edge and moving right.
+ */
+class EdgeSwipeRecognizer extends BaseRecognizer {
+  readonly name = 'edgeSwipe'
+  readonly events = ['edgeswipe'] as const
+
+  process(input: RecognizerInput): void {
+    const pointer = input.pointer
+
+    if (input.phase === 'down') {
+      if (input.pointers.length > 1 || pointer.startX > 20) {
+        this.setState(RecognizerState.FAILED)
+      }
+    } else if (input.phase === 'move') {
+      const distance = pointer.currentX - pointer.startX
+
+      if (distance >= 30) {
+        this.setState(RecognizerState.ENDED)
+        this.emit('edgeswipe', {
+          x: pointer.currentX,
+          y: pointer.currentY,
+          pointerType: pointer.pointerType,
+          pointerCount: 1,
+          distance: distance,
+        })
+      }
+    } else {
+      this.setState(RecognizerState.FAILED)
+    }
+  }
+}
+
+describe('Recognizer', () => {
+  let g: ReturnType<typeof createGestuelle>
+
+  let edgeSwipe: ReturnType<typeof vi.fn>
+  let panStart: ReturnType<typeof vi.fn>
+  let tap: ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    edgeSwipe = vi.fn()
+    panStart = vi.fn()
+    tap = vi.fn()
+
+    document.body.addEventListener('edgeswipe', edgeSwipe)
+    document.body.addEventListener('panstart', panStart)
+    document.body.addEventListener('tap', tap)
+
+    g = createGestuelle(document.body, { pan: { threshold: 40 } })
+    g.register(new EdgeSwipeRecognizer())
+  })
+
+  afterEach(() => {
+    document.body.removeEventListener('edgeswipe', edgeSwipe)
+    document.body.removeEventListener('panstart', panStart)
+    document.body.removeEventListener('tap', tap)
+    g.destroy()
+  })
+
+  it('should dispatch the events of a custom recognizer', () => {
+    touch('pointerdown', 1, 10, 10)
+    touch('pointermove', 1, 45, 10)
+
+    expect(edgeSwipe).toHaveBeenCalledTimes(1)
+    const detail: EdgeSwipeEventDetail = edgeSwipe.mock.calls[0][0].detail
+    expect(detail.distance).toBe(35)
+    expect(detail.pointerType).toBe('touch')
+  })
+
+  it('should cancel the built-in gestures once recognized', () => {
+    touch('pointerdown', 1, 10, 10)
+    touch('pointermove', 1, 45, 10)
+    touch('pointermove', 1, 100, 10)
+    touch('pointerup', 1, 100, 10)
+
+    expect(edgeSwipe).toHaveBeenCalledTimes(1)
+    expect(panStart).not.toHaveBeenCalled()
+  })
+
+  it('should leave the pointers to the built-in gestures when failing', () => {
+    touch('pointerdown', 1, 50, 10)
+    touch('pointermove', 1, 100, 10)
+    touch('pointerup', 1, 100, 10)
+
+    touch('pointerdown', 1, 10, 10)
+    touch('pointerup', 1, 10, 10)
+
+    expect(edgeSwipe).not.toHaveBeenCalled()
+    expect(panStart).toHaveBeenCalledTimes(1)
+    expect(tap).toHaveBeenCalledTimes(1)
+  })
+
+  it('should be disabled by name', () => {
+    g.disable('edgeSwipe')
+    expect(g.isEnabled('edgeSwipe')).toBe(false)
+
+    touch('pointerdown', 1, 10, 10)
+    touch('pointermove', 1, 60, 10)
+
+    expect(edgeSwipe).not.toHaveBeenCalled()
+    expect(panStart).toHaveBeenCalledTimes(1)
+  })
+
+  it('should throw when registering the same name twice', () => {
+    expect(() => g.register(new EdgeSwipeRecognizer())).toThrow('edgeSwipe')
+  })
+})
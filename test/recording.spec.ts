@@ -0,0 +1,165 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createVirtualClock, type VirtualClock } from '../src/clock'
+import { createGestuelleCore } from '../src/core'
+import { createGestuelle } from '../src/gestuelle'
+import { recordGestures, replayGestures } from '../src/recording'
+import type { GestureRecording } from '../src/types'
+import { touch } from './utils'
+
+describe('Recording', () => {
+  let clock: VirtualClock
+  let gestuelleInstance: ReturnType<typeof createGestuelle>
+
+  /**
+   * Records a double tap followed by a press and a pan on the body.
+   */
+  function record(): GestureRecording {
+    const recorder = recordGestures(gestuelleInstance)
+
+    clock.advance(100)
+    touch('pointerdown', 1, 50, 50)
+    clock.advance(50)
+    touch('pointerup', 1, 50, 50)
+    clock.advance(100)
+    touch('pointerdown', 1, 52, 50)
+    clock.advance(50)
+    touch('pointerup', 1, 52, 50)
+
+    clock.advance(500)
+    touch('pointerdown', 1, 50, 50)
+    clock.advance(600)
+    touch('pointermove', 1, 80, 50)
+    clock.advance(16)
+    touch('pointermove', 1, 120, 60)
+    clock.advance(16)
+    touch('pointerup', 1, 120, 60)
+    clock.advance(100)
+
+    return recorder.stop()
+  }
+
+  beforeEach(() => {
+    clock = createVirtualClock(1000)
+    gestuelleInstance = createGestuelle(document.body, { press: { minDuration: 500 } }, { clock: clock })
+  })
+
+  afterEach(() => {
+    gestuelleInstance.destroy()
+  })
+
+  it('should record the samples and the events from the start of the recording', () => {
+    const recording = record()
+
+    expect(recording.version).toBe(1)
+    expect(recording.config).toEqual({ press: { minDuration: 500 } })
+    expect(recording.duration).toBe(1532)
+    expect(recording.samples).toHaveLength(8)
+    expect(recording.samples[0]).toEqual({
+      id: 1,
+      x: 50,
+      y: 50,
+      type: 'touch',
+      time: 100,
+      phase: 'down',
+      button: 0,
+      buttons: 0,
+      shiftKey: false,
+      ctrlKey: false,
+      altKey: false,
+      metaKey: false,
+    })
+
+    expect(recording.events.map((event) => event.type)).toEqual([
+      'tap',
+      'tap',
+      'doubletap',
+      'pressstart',
+      'presscancel',
+      'panstart',
+      'panmove',
+      'panend',
+    ])
+    expect(recording.events[3]).toMatchObject({ type: 'pressstart', time: 1300 })
+  })
+
+  it('should serialize to JSON', () => {
+    const recording = record()
+
+    expect(JSON.parse(JSON.stringify(recording))).toEqual(recording)
+    expect(recording.events[0].detail).not.toHaveProperty('target')
+  })
+
+  it('should stop recording', () => {
+    const recorder = recordGestures(gestuelleInstance)
+    const recording = recorder.stop()
+
+    touch('pointerdown', 1, 50, 50)
+    touch('pointerup', 1, 50, 50)
+
+    expect(recording.samples).toHaveLength(0)
+    expect(recorder.stop().samples).toHaveLength(0)
+  })
+
+  it('should replay instantly the same events on a virtual clock', async () => {
+    const recording = JSON.parse(JSON.stringify(record()))
+
+    const replayClock = createVirtualClock()
+    const core = createGestuelleCore({ clock: replayClock, config: recording.config, onEvent: () => {} })
+    const recorder = recordGestures(core)
+
+    await replayGestures(recording, core, { instant: true })
+
+    const replayed = recorder.stop()
+
+    expect(replayed.events).toEqual(recording.events)
+    expect(replayed.samples).toEqual(recording.samples)
+    expect(replayed.duration).toBe(recording.duration)
+  })
+
+  it('should replay in real time', async () => {
+    const recording = record()
+    gestuelleInstance.destroy()
+
+    vi.useFakeTimers()
+
+    const replayInstance = createGestuelle(document.body, recording.config)
+    const doubletapListener = vi.fn()
+    const panendListener = vi.fn()
+    document.body.addEventListener('doubletap', doubletapListener)
+    document.body.addEventListener('panend', panendListener)
+
+    let replayed = false
+    replayGestures(recording, replayInstance).then(() => {
+      replayed = true
+    })
+
+    await vi.advanceTimersByTimeAsync(400)
+    expect(doubletapListener).toHaveBeenCalledTimes(1)
+    expect(panendListener).not.toHaveBeenCalled()
+
+    await vi.advanceTimersByTimeAsync(1100)
+    expect(panendListener).toHaveBeenCalledTimes(1)
+    expect(replayed).toBe(false)
+
+    await vi.advanceTimersByTimeAsync(100)
+    expect(replayed).toBe(true)
+
+    document.body.removeEventListener('doubletap', doubletapListener)
+    document.body.removeEventListener('panend', panendListener)
+    replayInstance.destroy()
+    vi.useRealTimers()
+  })
+
+  it('should refuse to replay instantly without a virtual clock', async () => {
+    const recording = record()
+    const core = createGestuelleCore({ onEvent: () => {} })
+
+    await expect(replayGestures(recording, core, { instant: true })).rejects.toThrow('virtual clock')
+  })
+
+  it('should refuse an unknown recording version', async () => {
+    const recording = { ...record(), version: 2 } as unknown as GestureRecording
+
+    await expect(replayGestures(recording, gestuelleInstance, { instant: true })).rejects.toThrow('version 2')
+  })
+})
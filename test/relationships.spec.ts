@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createGestuelle } from '../src/gestuelle'
+import { touch } from './utils'
+
+describe('Relationships', () => {
+  let g: ReturnType<typeof createGestuelle>
+
+  let tap: ReturnType<typeof vi.fn>
+  let doubleTap: ReturnType<typeof vi.fn>
+  let panStart: ReturnType<typeof vi.fn>
+  let pinchStart: ReturnType<typeof vi.fn>
+  let pressStart: ReturnType<typeof vi.fn>
+  let pressCancel: ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+
+    tap = vi.fn()
+    doubleTap = vi.fn()
+    panStart = vi.fn()
+    pinchStart = vi.fn()
+    pressStart = vi.fn()
+    pressCancel = vi.fn()
+
+    document.body.addEventListener('tap', tap)
+    document.body.addEventListener('doubletap', doubleTap)
+    document.body.addEventListener('panstart', panStart)
+    document.body.addEventListener('pinchstart', pinchStart)
+    document.body.addEventListener('pressstart', pressStart)
+    document.body.addEventListener('presscancel', pressCancel)
+  })
+
+  afterEach(() => {
+    document.body.removeEventListener('tap', tap)
+    document.body.removeEventListener('doubletap', doubleTap)
+    document.body.removeEventListener('panstart', panStart)
+    document.body.removeEventListener('pinchstart', pinchStart)
+    document.body.removeEventListener('pressstart', pressStart)
+    document.body.removeEventListener('presscancel', pressCancel)
+    g.destroy()
+    vi.useRealTimers()
+  })
+
+  describe('requireFailureOf', () => {
+    beforeEach(() => {
+      g = createGestuelle(document.body, { tap: { requireFailureOf: ['multiTap'] }, multiTap: { maxInterval: 300 } })
+    })
+
+    it('should hold the tap until the double tap failed', () => {
+      touch('pointerdown', 1, 10, 10)
+      touch('pointerup', 1, 10, 10)
+      expect(tap).not.toHaveBeenCalled()
+
+      vi.advanceTimersByTime(300)
+      expect(tap).toHaveBeenCalledTimes(1)
+      expect(doubleTap).not.toHaveBeenCalled()
+    })
+
+    it('should drop the tap once the double tap is recognized', () => {
+      touch('pointerdown', 1, 10, 10)
+      touch('pointerup', 1, 10, 10)
+      vi.advanceTimersByTime(100)
+      touch('pointerdown', 1, 10, 10)
+      touch('pointerup', 1, 10, 10)
+      vi.advanceTimersByTime(1000)
+
+      expect(doubleTap).toHaveBeenCalledTimes(1)
+      expect(tap).not.toHaveBeenCalled()
+    })
+
+    it('should release the tap when the next gesture breaks the sequence', () => {
+      touch('pointerdown', 1, 10, 10)
+      touch('pointerup', 1, 10, 10)
+      vi.advanceTimersByTime(100)
+      touch('pointerdown', 1, 100, 100)
+
+      expect(tap).toHaveBeenCalledTimes(1)
+      expect(tap.mock.calls[0][0].detail.x).toBe(10)
+    })
+  })
+
+  describe('allowSimultaneous', () => {
+    it('should recognize a two-finger pan along a pinch', () => {
+      g = createGestuelle(document.body, { pan: { pointers: 2 }, pinch: { allowSimultaneous: ['pan'] } })
+
+      touch('pointerdown', 1, 100, 100)
+      touch('pointerdown', 2, 200, 100)
+      touch('pointermove', 1, 110, 120)
+      touch('pointermove', 2, 230, 120)
+
+      expect(panStart).toHaveBeenCalledTimes(1)
+      expect(pinchStart).toHaveBeenCalledTimes(1)
+    })
+
+    it('should stop the two-finger pan once the pinch began by default', () => {
+      g = createGestuelle(document.body, { pan: { pointers: 2 } })
+
+      touch('pointerdown', 1, 100, 100)
+      touch('pointerdown', 2, 200, 100)
+      touch('pointermove', 1, 110, 120)
+      touch('pointermove', 2, 230, 120)
+
+      expect(pinchStart).toHaveBeenCalledTimes(1)
+      expect(panStart).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('priority', () => {
+    it('should let a gesture with a higher priority interrupt another', () => {
+      g = createGestuelle(document.body, {
+        press: { minDuration: 500, maxDistance: 20 },
+        pan: { threshold: 5, priority: 1 },
+      })
+
+      touch('pointerdown', 1, 10, 10)
+      vi.advanceTimersByTime(500)
+      expect(pressStart).toHaveBeenCalledTimes(1)
+
+      touch('pointermove', 1, 20, 10)
+      expect(panStart).toHaveBeenCalledTimes(1)
+      expect(pressCancel).toHaveBeenCalledTimes(1)
+    })
+
+    it('should NOT let a gesture with a lower priority interrupt another', () => {
+      g = createGestuelle(document.body, {
+        press: { minDuration: 500, maxDistance: 20, priority: 1 },
+        pan: { threshold: 5 },
+      })
+
+      touch('pointerdown', 1, 10, 10)
+      touch('pointermove', 1, 12, 10)
+      vi.advanceTimersByTime(500)
+      expect(pressStart).toHaveBeenCalledTimes(1)
+
+      touch('pointermove', 1, 20, 10)
+      expect(panStart).not.toHaveBeenCalled()
+      expect(pressCancel).not.toHaveBeenCalled()
+    })
+  })
+})
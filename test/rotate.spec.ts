@@ -0,0 +1,104 @@
+import userEvent from '@testing-library/user-event'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createGestuelle } from '../src/gestuelle'
+import type { RotateEventDetail } from '../src/types'
+
+describe('Rotate', () => {
+  let g: ReturnType<typeof createGestuelle>
+
+  let rotateStart: ReturnType<typeof vi.fn>
+  let rotateMove: ReturnType<typeof vi.fn>
+  let rotateEnd: ReturnType<typeof vi.fn>
+  let pinchStart: ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    rotateStart = vi.fn()
+    rotateMove = vi.fn()
+    rotateEnd = vi.fn()
+    pinchStart = vi.fn()
+
+    document.body.addEventListener('rotatestart', rotateStart)
+    document.body.addEventListener('rotatemove', rotateMove)
+    document.body.addEventListener('rotateend', rotateEnd)
+    document.body.addEventListener('pinchstart', pinchStart)
+
+    g = createGestuelle(document.body, { rotate: { threshold: 10 } })
+  })
+
+  afterEach(() => {
+    document.body.removeEventListener('rotatestart', rotateStart)
+    document.body.removeEventListener('rotatemove', rotateMove)
+    document.body.removeEventListener('rotateend', rotateEnd)
+    document.body.removeEventListener('pinchstart', pinchStart)
+    g.destroy()
+  })
+
+  it('should rotate', async () => {
+    const user = userEvent.setup()
+
+    await user.pointer([
+      { keys: '[TouchA>]', target: document.body, coords: { clientX: 50, clientY: 50 } },
+      { keys: '[TouchB>]', target: document.body, coords: { clientX: 100, clientY: 50 } },
+      { pointerName: 'TouchB', coords: { clientX: 100, clientY: 52 } },
+    ])
+
+    expect(rotateStart).not.toHaveBeenCalled()
+
+    await user.pointer([{ pointerName: 'TouchB', coords: { clientX: 50, clientY: 100 } }])
+
+    expect(rotateStart).toHaveBeenCalledTimes(1)
+    expect(rotateMove).toHaveBeenCalledTimes(1)
+
+    const detail: RotateEventDetail = rotateMove.mock.calls[0][0].detail
+    expect(detail.rotation).toBeCloseTo(90)
+    expect(detail.deltaRotation).toBeCloseTo(90)
+    expect(detail.startAngle).toBeCloseTo(0)
+    expect(detail.centerX).toBe(50)
+    expect(detail.centerY).toBe(75)
+
+    await user.pointer([{ pointerName: 'TouchB', coords: { clientX: 0, clientY: 50 } }])
+
+    const nextDetail: RotateEventDetail = rotateMove.mock.calls[1][0].detail
+    expect(nextDetail.rotation).toBeCloseTo(180)
+    expect(nextDetail.deltaRotation).toBeCloseTo(90)
+
+    await user.pointer([{ keys: '[/TouchA]' }, { keys: '[/TouchB]' }])
+
+    expect(rotateEnd).toHaveBeenCalledTimes(1)
+    expect(rotateEnd.mock.calls[0][0].detail.rotation).toBeCloseTo(180)
+  })
+
+  it('should unwrap the angle across ±180 degrees', async () => {
+    const user = userEvent.setup()
+
+    await user.pointer([
+      { keys: '[TouchA>]', target: document.body, coords: { clientX: 50, clientY: 50 } },
+      { keys: '[TouchB>]', target: document.body, coords: { clientX: 0, clientY: 50 } },
+      { pointerName: 'TouchB', coords: { clientX: 0, clientY: 40 } },
+    ])
+
+    expect(rotateStart).toHaveBeenCalledTimes(1)
+
+    const detail: RotateEventDetail = rotateStart.mock.calls[0][0].detail
+    expect(detail.startAngle).toBeCloseTo(180)
+    expect(detail.angle).toBeGreaterThan(180)
+    expect(detail.rotation).toBeCloseTo(11.31, 1)
+
+    await user.pointer([{ keys: '[/TouchA]' }, { keys: '[/TouchB]' }])
+  })
+
+  it('should run along a pinch', async () => {
+    const user = userEvent.setup()
+
+    await user.pointer([
+      { keys: '[TouchA>]', target: document.body, coords: { clientX: 50, clientY: 50 } },
+      { keys: '[TouchB>]', target: document.body, coords: { clientX: 100, clientY: 50 } },
+      { pointerName: 'TouchB', coords: { clientX: 50, clientY: 150 } },
+    ])
+
+    expect(pinchStart).toHaveBeenCalledTimes(1)
+    expect(rotateStart).toHaveBeenCalledTimes(1)
+
+    await user.pointer([{ keys: '[/TouchA]' }, { keys: '[/TouchB]' }])
+  })
+})
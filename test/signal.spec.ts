@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createGestuelle } from '../src/gestuelle'
+import { recordGestures } from '../src/recording'
+import { touch } from './utils'
+
+describe('Signal', () => {
+  let element: HTMLElement
+  let controller: AbortController
+  let gestuelleInstance: ReturnType<typeof createGestuelle>
+  let listener: ReturnType<typeof vi.fn>
+
+  function tap(): void {
+    touch('pointerdown', 1, 10, 10, element)
+    touch('pointerup', 1, 10, 10, element)
+  }
+
+  beforeEach(() => {
+    element = document.createElement('div')
+    document.body.appendChild(element)
+    controller = new AbortController()
+    listener = vi.fn()
+    gestuelleInstance = createGestuelle(element, { signal: controller.signal })
+  })
+
+  afterEach(() => {
+    gestuelleInstance.destroy()
+    element.remove()
+  })
+
+  it('should listen to the events until unsubscribed', () => {
+    const unsubscribe = gestuelleInstance.on('tap', listener)
+
+    tap()
+    unsubscribe()
+    tap()
+
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(listener.mock.calls[0][0].detail).toMatchObject({ x: 10, y: 10, tapCount: 1 })
+  })
+
+  it('should remove the listeners when destroyed', () => {
+    gestuelleInstance.on('tap', listener)
+    const elementListener = vi.fn()
+    element.addEventListener('tap', elementListener)
+
+    gestuelleInstance.destroy()
+    element.dispatchEvent(new CustomEvent('tap'))
+
+    expect(listener).not.toHaveBeenCalled()
+    expect(elementListener).toHaveBeenCalled()
+  })
+
+  it('should remove the listener when its own signal is aborted', () => {
+    const listenerController = new AbortController()
+    gestuelleInstance.on('tap', listener, { signal: listenerController.signal })
+
+    listenerController.abort()
+    tap()
+
+    expect(listener).not.toHaveBeenCalled()
+  })
+
+  it('should destroy the instance when the signal is aborted', () => {
+    gestuelleInstance.on('tap', listener)
+    const tapListener = vi.fn()
+    element.addEventListener('tap', tapListener)
+
+    controller.abort()
+    tap()
+
+    expect(tapListener).not.toHaveBeenCalled()
+    expect(listener).not.toHaveBeenCalled()
+  })
+
+  it('should only watch the signal given last', () => {
+    const nextController = new AbortController()
+    gestuelleInstance.setConfig({ signal: nextController.signal })
+    element.addEventListener('tap', listener)
+
+    controller.abort()
+    tap()
+    nextController.abort()
+    tap()
+
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(gestuelleInstance.config.signal).toBe(nextController.signal)
+  })
+
+  it('should leave the signal out of the recordings', () => {
+    const recorder = recordGestures(gestuelleInstance)
+
+    expect(recorder.stop().config).not.toHaveProperty('signal')
+  })
+
+  it('should not recognize anything with an aborted signal', () => {
+    gestuelleInstance.destroy()
+    gestuelleInstance = createGestuelle(element, { signal: AbortSignal.abort() })
+    element.addEventListener('tap', listener)
+
+    tap()
+
+    expect(listener).not.toHaveBeenCalled()
+  })
+})
@@ -1,6 +1,7 @@
 import userEvent from '@testing-library/user-event'
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 import { createGestuelle } from '../src/gestuelle'
+import { touch } from './utils'
 
 describe('Swipe', () => {
   let gestuelleInstance: ReturnType<typeof createGestuelle>
@@ -29,4 +30,91 @@ describe('Swipe', () => {
 
     expect(swipeListener).toHaveBeenCalledTimes(1)
   })
+
+  it('should swipe instead of ending the pan', async () => {
+    const user = userEvent.setup()
+    const events: string[] = []
+    const onPanEnd = () => events.push('panend')
+    const onSwipe = () => events.push('swipe')
+    document.body.addEventListener('panend', onPanEnd)
+    document.body.addEventListener('swipe', onSwipe)
+
+    await user.pointer([
+      { keys: '[MouseLeft>]', coords: { clientX: 10, clientY: 10 } },
+      { coords: { clientX: 20, clientY: 10 } },
+      { coords: { clientX: 40, clientY: 10 } },
+      { keys: '[/MouseLeft]' },
+    ])
+
+    document.body.removeEventListener('panend', onPanEnd)
+    document.body.removeEventListener('swipe', onSwipe)
+    expect(events).toEqual(['swipe'])
+  })
+
+  it('should NOT swipe against the direction of the pan', () => {
+    gestuelleInstance.setConfig({ pan: { direction: 'horizontal' } })
+
+    touch('pointerdown', 1, 10, 10)
+    touch('pointermove', 1, 30, 10)
+    touch('pointermove', 1, 30, 110)
+    touch('pointerup', 1, 30, 110)
+
+    expect(swipeListener).not.toHaveBeenCalled()
+  })
+
+  describe('with the release velocity', () => {
+    beforeEach(() => {
+      vi.useFakeTimers()
+      gestuelleInstance.destroy()
+      gestuelleInstance = createGestuelle(document.body, { swipe: { velocity: 'release', velocityWindow: 100 } })
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it('should swipe on a slow drag ending with a flick', () => {
+      touch('pointerdown', 1, 0, 0)
+      vi.advanceTimersByTime(200)
+      touch('pointermove', 1, 20, 0)
+      vi.advanceTimersByTime(800)
+      touch('pointermove', 1, 40, 0)
+      vi.advanceTimersByTime(20)
+      touch('pointermove', 1, 80, 0)
+      touch('pointerup', 1, 80, 0)
+
+      expect(swipeListener).toHaveBeenCalledTimes(1)
+      expect(swipeListener.mock.calls[0][0].detail.velocityX).toBe(2)
+      expect(swipeListener.mock.calls[0][0].detail.direction).toBe('right')
+    })
+
+    it('should NOT swipe when the pointer stopped before release', () => {
+      touch('pointerdown', 1, 0, 0)
+      vi.advanceTimersByTime(10)
+      touch('pointermove', 1, 50, 0)
+      vi.advanceTimersByTime(10)
+      touch('pointermove', 1, 100, 0)
+      vi.advanceTimersByTime(150)
+      touch('pointerup', 1, 100, 0)
+
+      expect(swipeListener).not.toHaveBeenCalled()
+    })
+
+    it('should report the velocity on panmove', () => {
+      const panMoveListener = vi.fn()
+      document.body.addEventListener('panmove', panMoveListener)
+
+      touch('pointerdown', 1, 0, 0)
+      vi.advanceTimersByTime(10)
+      touch('pointermove', 1, 10, 0)
+      vi.advanceTimersByTime(10)
+      touch('pointermove', 1, 10, 20)
+      touch('pointerup', 1, 10, 20)
+
+      document.body.removeEventListener('panmove', panMoveListener)
+
+      expect(panMoveListener.mock.calls[0][0].detail.velocityX).toBe(0.5)
+      expect(panMoveListener.mock.calls[0][0].detail.velocityY).toBe(1)
+    })
+  })
 })
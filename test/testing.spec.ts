@@ -0,0 +1,128 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createGestuelle } from '../src/gestuelle'
+import { simulatePan, simulatePinch, simulatePress, simulateSwipe, simulateTap } from '../src/testing'
+
+describe('Testing', () => {
+  let gestuelleInstance: ReturnType<typeof createGestuelle>
+  let listener: ReturnType<typeof vi.fn>
+
+  const options = { advanceTimers: vi.advanceTimersByTime }
+
+  function listen(...types: string[]): void {
+    types.forEach((type) => {
+      document.body.addEventListener(type, listener)
+    })
+  }
+
+  function getCalls(type: string): CustomEvent[] {
+    return listener.mock.calls.map(([event]) => event).filter((event) => event.type === type)
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    listener = vi.fn()
+    gestuelleInstance = createGestuelle(document.body, { rotate: { enabled: true } })
+  })
+
+  afterEach(() => {
+    ;['tap', 'doubletap', 'pressstart', 'panstart', 'panend', 'swipe', 'pinchend', 'rotateend'].forEach((type) => {
+      document.body.removeEventListener(type, listener)
+    })
+    gestuelleInstance.destroy()
+    vi.useRealTimers()
+  })
+
+  it('should simulate taps', async () => {
+    listen('tap', 'doubletap')
+
+    await simulateTap(document.body, options)
+    await vi.advanceTimersByTimeAsync(500)
+    await simulateTap(document.body, options)
+    await simulateTap(document.body, options)
+
+    expect(getCalls('tap')).toHaveLength(3)
+    expect(getCalls('doubletap')).toHaveLength(1)
+  })
+
+  it('should simulate a two-finger tap', async () => {
+    gestuelleInstance.setConfig({ tap: { pointers: 2 } })
+    listen('tap')
+
+    await simulateTap(document.body, { ...options, pointers: 2 })
+
+    expect(getCalls('tap')).toHaveLength(1)
+    expect(getCalls('tap')[0].detail.pointerCount).toBe(2)
+  })
+
+  it('should simulate a press', async () => {
+    listen('pressstart', 'tap')
+
+    await simulatePress(document.body, 600, options)
+
+    expect(getCalls('pressstart')).toHaveLength(1)
+    expect(getCalls('tap')).toHaveLength(0)
+  })
+
+  it('should simulate a pan along a path', async () => {
+    listen('panstart', 'panend')
+
+    await simulatePan(
+      document.body,
+      [
+        [10, 0],
+        [20, 5],
+        [30, 10],
+      ],
+      { ...options, x: 100, y: 100, interval: 100 },
+    )
+
+    expect(getCalls('panstart')).toHaveLength(1)
+    expect(getCalls('panend')[0].detail).toMatchObject({ x: 130, y: 110, offsetX: 30, offsetY: 10 })
+  })
+
+  it('should simulate a swipe at the given velocity', async () => {
+    listen('swipe')
+
+    await simulateSwipe(document.body, 'left', 1, options)
+
+    const [swipe] = getCalls('swipe')
+    expect(swipe.detail.direction).toBe('left')
+    expect(swipe.detail.distance).toBe(100)
+    expect(swipe.detail.velocity).toBeCloseTo(1)
+  })
+
+  it('should not simulate a swipe too slow to be recognized', async () => {
+    listen('swipe')
+
+    await simulateSwipe(document.body, 'up', 0.1, options)
+
+    expect(getCalls('swipe')).toHaveLength(0)
+  })
+
+  it('should reject a swipe without a velocity', async () => {
+    await expect(simulateSwipe(document.body, 'left', 0, options)).rejects.toThrow(RangeError)
+    await expect(simulateSwipe(document.body, 'left', Number.POSITIVE_INFINITY, options)).rejects.toThrow(RangeError)
+  })
+
+  it('should simulate a pinch with a rotation', async () => {
+    listen('pinchend', 'rotateend')
+
+    await simulatePinch(document.body, 2, 45, options)
+
+    expect(getCalls('pinchend')[0].detail.scale).toBeCloseTo(2)
+    expect(getCalls('rotateend')[0].detail.rotation).toBeCloseTo(45)
+  })
+
+  it('should capture the pointers per element', () => {
+    const element = document.createElement('div')
+
+    element.setPointerCapture(1)
+
+    expect(element.hasPointerCapture(1)).toBe(true)
+    expect(document.body.hasPointerCapture(1)).toBe(false)
+
+    element.releasePointerCapture(1)
+
+    expect(element.hasPointerCapture(1)).toBe(false)
+  })
+})
@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { createGestuelle } from '../src/gestuelle'
+import { touch } from './utils'
+
+describe('Touch action', () => {
+  let gestuelleInstance: ReturnType<typeof createGestuelle>
+
+  beforeEach(() => {
+    document.body.style.touchAction = 'auto'
+  })
+
+  afterEach(() => {
+    gestuelleInstance.destroy()
+    document.body.style.touchAction = ''
+  })
+
+  it('should disable every browser gesture by default', () => {
+    gestuelleInstance = createGestuelle(document.body)
+    expect(document.body.style.touchAction).toBe('none')
+  })
+
+  it('should let the browser scroll along the axis the pan is not on', () => {
+    gestuelleInstance = createGestuelle(document.body, { pan: { direction: 'horizontal' } })
+    expect(document.body.style.touchAction).toBe('pan-y')
+  })
+
+  it('should let the browser scroll when single pointer movements are not used', () => {
+    gestuelleInstance = createGestuelle(document.body, { pan: { pointers: 2 }, swipe: { pointers: 3 } })
+    expect(document.body.style.touchAction).toBe('pan-x pan-y')
+  })
+
+  it('should apply the configured value', () => {
+    gestuelleInstance = createGestuelle(document.body, { touchAction: 'manipulation' })
+    expect(document.body.style.touchAction).toBe('manipulation')
+  })
+
+  it('should leave the element untouched when disabled', () => {
+    gestuelleInstance = createGestuelle(document.body, { touchAction: false })
+    expect(document.body.style.touchAction).toBe('auto')
+  })
+
+  it('should restore the original value on destroy', () => {
+    gestuelleInstance = createGestuelle(document.body)
+    gestuelleInstance.destroy()
+    expect(document.body.style.touchAction).toBe('auto')
+  })
+
+  it('should restore the original value once disabled', () => {
+    document.body.style.touchAction = 'pan-y'
+    gestuelleInstance = createGestuelle(document.body, { touchAction: 'manipulation' })
+
+    gestuelleInstance.setConfig({ touchAction: false })
+    expect(document.body.style.touchAction).toBe('pan-y')
+
+    gestuelleInstance.setConfig({ touchAction: true })
+    gestuelleInstance.setConfig({ touchAction: false })
+    gestuelleInstance.destroy()
+    expect(document.body.style.touchAction).toBe('pan-y')
+  })
+
+  it('should NOT prevent default before a gesture is recognized', () => {
+    gestuelleInstance = createGestuelle(document.body)
+
+    const down = touch('pointerdown', 1, 10, 10)
+    const move = touch('pointermove', 1, 12, 10)
+    const panMove = touch('pointermove', 1, 30, 10)
+    touch('pointerup', 1, 30, 10)
+
+    expect(down.defaultPrevented).toBe(false)
+    expect(move.defaultPrevented).toBe(false)
+    expect(panMove.defaultPrevented).toBe(true)
+  })
+})
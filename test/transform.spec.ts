@@ -0,0 +1,192 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createGestuelle } from '../src/gestuelle'
+import { createTransformController } from '../src/transform'
+import type { TransformControllerOptions } from '../src/types'
+import { parseTransform, transformPoint } from '../src/utils'
+import { touch } from './utils'
+
+describe('Transform controller', () => {
+  let element: HTMLElement
+  let gestuelleInstance: ReturnType<typeof createGestuelle>
+  let controller: ReturnType<typeof createTransformController>
+  let transformChangeListener: ReturnType<typeof vi.fn>
+
+  function setup(options: TransformControllerOptions = {}): void {
+    controller = createTransformController(gestuelleInstance, { applyStyle: true, ...options })
+  }
+
+  function pinch(from: [number, number, number, number], ...moves: [number, number, number, number][]): void {
+    touch('pointerdown', 1, from[0], from[1], element)
+    touch('pointerdown', 2, from[2], from[3], element)
+
+    for (const [x1, y1, x2, y2] of moves) {
+      touch('pointermove', 1, x1, y1, element)
+      touch('pointermove', 2, x2, y2, element)
+    }
+
+    const [x1, y1, x2, y2] = moves[moves.length - 1]
+    touch('pointerup', 1, x1, y1, element)
+    touch('pointerup', 2, x2, y2, element)
+  }
+
+  function pan(...points: [number, number][]): void {
+    touch('pointerdown', 1, ...points[0], element)
+    points.slice(1).forEach((point) => touch('pointermove', 1, ...point, element))
+  }
+
+  beforeEach(() => {
+    element = document.createElement('div')
+    document.body.appendChild(element)
+
+    // A 100x100 element at the top left corner of the viewport, enclosed in a rectangle following its transform
+    Object.defineProperty(element, 'offsetWidth', { value: 100 })
+    Object.defineProperty(element, 'offsetHeight', { value: 100 })
+    element.getBoundingClientRect = () => {
+      const matrix = parseTransform(element.style.transform)
+      const corners = [
+        transformPoint(matrix, 0, 0),
+        transformPoint(matrix, 100, 0),
+        transformPoint(matrix, 0, 100),
+        transformPoint(matrix, 100, 100),
+      ]
+      const left = Math.min(...corners.map(([x]) => x))
+      const top = Math.min(...corners.map(([, y]) => y))
+      const right = Math.max(...corners.map(([x]) => x))
+      const bottom = Math.max(...corners.map(([, y]) => y))
+      return new DOMRect(left, top, right - left, bottom - top)
+    }
+
+    transformChangeListener = vi.fn()
+    element.addEventListener('transformchange', transformChangeListener)
+    gestuelleInstance = createGestuelle(element)
+  })
+
+  afterEach(() => {
+    controller.destroy()
+    gestuelleInstance.destroy()
+    element.remove()
+  })
+
+  it('should follow the pan', () => {
+    setup()
+
+    pan([10, 10], [20, 10], [50, 20])
+    touch('pointerup', 1, 50, 20, element)
+
+    expect(controller.transform).toEqual({ x: 40, y: 10, scale: 1, rotation: 0 })
+    expect(controller.matrix).toEqual({ a: 1, b: 0, c: 0, d: 1, e: 40, f: 10 })
+    expect(element.style.transform).toBe('matrix(1, 0, 0, 1, 40, 10)')
+    expect(element.style.transformOrigin).toBe('0 0')
+    expect(transformChangeListener.mock.lastCall?.[0].detail).toMatchObject({ x: 40, y: 10, scale: 1 })
+  })
+
+  it('should follow the first scroll of the wheel', () => {
+    gestuelleInstance.setConfig({ wheel: true })
+    setup()
+
+    element.dispatchEvent(new WheelEvent('wheel', { bubbles: true, cancelable: true, deltaX: 5, deltaY: 10 }))
+
+    expect(controller.transform).toMatchObject({ x: -5, y: -10 })
+  })
+
+  it('should zoom around the center of the pinch', () => {
+    setup()
+
+    pinch([40, 50, 60, 50], [30, 50, 60, 50], [30, 50, 70, 50])
+
+    const { x, y, scale } = controller.transform
+    expect(scale).toBeCloseTo(2)
+    expect(x).toBeCloseTo(-50)
+    expect(y).toBeCloseTo(-50)
+  })
+
+  it('should follow the pointers moving together while pinching', () => {
+    setup()
+
+    pinch([40, 50, 60, 50], [30, 50, 70, 50], [40, 60, 80, 60])
+
+    const { x, y, scale } = controller.transform
+    expect(scale).toBeCloseTo(2)
+    expect(x).toBeCloseTo(-40)
+    expect(y).toBeCloseTo(-40)
+  })
+
+  it('should turn around the center of the rotation', () => {
+    gestuelleInstance.disable('pinch')
+    setup()
+
+    // Both pointers turn by 15deg before the rotation starts, then by 90deg around the center
+    const onCircle = (angle: number): [number, number] => [
+      50 + 10 * Math.cos((angle * Math.PI) / 180),
+      50 + 10 * Math.sin((angle * Math.PI) / 180),
+    ]
+    pinch([...onCircle(180), ...onCircle(0)], [...onCircle(195), ...onCircle(15)], [...onCircle(270), ...onCircle(90)])
+
+    const { x, y, rotation } = controller.transform
+    expect(rotation).toBeCloseTo(90)
+    expect(x).toBeCloseTo(100)
+    expect(y).toBeCloseTo(0)
+  })
+
+  it('should resist the scale beyond its limits until the pinch is over', () => {
+    setup({ maxScale: 1.5 })
+
+    const scales: number[] = []
+    element.addEventListener('transformchange', (event) => {
+      scales.push(event.detail.scale)
+    })
+
+    pinch([40, 50, 60, 50], [30, 50, 60, 50], [30, 50, 70, 50])
+
+    const maxScale = Math.max(...scales)
+    expect(maxScale).toBeGreaterThan(1.5)
+    expect(maxScale).toBeLessThan(2)
+    expect(controller.transform.scale).toBe(1.5)
+  })
+
+  it('should resist the pan beyond the bounds until it is over', () => {
+    setup({ bounds: { maxX: 20 }, rubberBand: 0.5 })
+
+    pan([10, 10], [20, 10], [50, 10])
+    expect(controller.transform.x).toBe(30)
+
+    touch('pointerup', 1, 50, 10, element)
+    expect(controller.transform.x).toBe(20)
+  })
+
+  it('should stop at the bounds without rubber-banding', () => {
+    setup({ bounds: { minX: -10 }, rubberBand: 0 })
+
+    pan([50, 10], [40, 10], [0, 10])
+    expect(controller.transform.x).toBe(-10)
+  })
+
+  it('should set the transform within the limits', () => {
+    setup({ minScale: 1, maxScale: 4, bounds: { minX: -100, maxX: 0 } })
+
+    controller.setTransform({ scale: 8, x: 50 })
+    expect(controller.transform).toEqual({ x: 0, y: 0, scale: 4, rotation: 0 })
+
+    controller.reset()
+    expect(controller.transform).toEqual({ x: 0, y: 0, scale: 1, rotation: 0 })
+    expect(transformChangeListener).toHaveBeenCalledTimes(2)
+  })
+
+  it('should not apply the style unless required', () => {
+    setup({ applyStyle: false })
+
+    pan([10, 10], [20, 10], [50, 10])
+
+    expect(element.style.transform).toBe('')
+    expect(transformChangeListener).toHaveBeenCalled()
+  })
+
+  it('should stop following the gestures once destroyed', () => {
+    setup()
+    controller.destroy()
+
+    pan([10, 10], [20, 10], [50, 10])
+
+    expect(transformChangeListener).not.toHaveBeenCalled()
+  })
+})
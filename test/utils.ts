@@ -0,0 +1,18 @@
+/**
+ * Dispatches a touch pointer event on the body, or the given target, `userEvent`
+ * being unreliable when releasing more than two touches.
+ */
+export function touch(
+  type: string,
+  pointerId: number,
+  clientX: number,
+  clientY: number,
+  target: Element = document.body,
+  init: MouseEventInit & { pointerType?: string } = {},
+): Event {
+  const { pointerType = 'touch', ...mouseInit } = init
+  const event = new MouseEvent(type, { bubbles: true, cancelable: true, clientX, clientY, ...mouseInit })
+  Object.assign(event, { pointerId, pointerType })
+  target.dispatchEvent(event)
+  return event
+}
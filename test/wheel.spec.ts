@@ -0,0 +1,191 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createGestuelle } from '../src/gestuelle'
+import { touch } from './utils'
+
+describe('Wheel', () => {
+  let gestuelleInstance: ReturnType<typeof createGestuelle>
+  let listener: ReturnType<typeof vi.fn>
+
+  const types = ['panstart', 'panmove', 'panend', 'pinchstart', 'pinchmove', 'pinchend'] as const
+
+  function wheel(init: WheelEventInit): WheelEvent {
+    const event = new WheelEvent('wheel', { bubbles: true, cancelable: true, clientX: 50, clientY: 50, ...init })
+    document.body.dispatchEvent(event)
+    return event
+  }
+
+  function safariGesture(type: string, scale: number): Event {
+    const event = new Event(type, { bubbles: true, cancelable: true })
+    Object.assign(event, { scale: scale, rotation: 0, clientX: 50, clientY: 50 })
+    document.body.dispatchEvent(event)
+    return event
+  }
+
+  function getEvents(): [string, Record<string, number>][] {
+    return listener.mock.calls.map(([event]) => [event.type, event.detail])
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    listener = vi.fn()
+    types.forEach((type) => {
+      document.body.addEventListener(type, listener)
+    })
+    gestuelleInstance = createGestuelle(document.body, { wheel: true })
+  })
+
+  afterEach(() => {
+    types.forEach((type) => {
+      document.body.removeEventListener(type, listener)
+    })
+    gestuelleInstance.destroy()
+    vi.useRealTimers()
+  })
+
+  it('should pan while scrolling, until the wheel is idle', () => {
+    const event = wheel({ deltaX: 10, deltaY: 0 })
+    vi.advanceTimersByTime(16)
+    wheel({ deltaX: 20, deltaY: 5 })
+
+    expect(event.defaultPrevented).toBe(true)
+    expect(getEvents().map(([type]) => type)).toEqual(['panstart', 'panmove'])
+    expect(getEvents()[1][1]).toMatchObject({ deltaX: -20, deltaY: -5, offsetX: -30, offsetY: -5, velocityX: -1.25 })
+
+    vi.advanceTimersByTime(149)
+    expect(listener).toHaveBeenCalledTimes(2)
+
+    vi.advanceTimersByTime(1)
+    expect(getEvents()[2]).toEqual(['panend', expect.objectContaining({ deltaX: 0, offsetX: -30, velocityX: 0 })])
+  })
+
+  it('should convert the scroll by lines into pixels', () => {
+    wheel({ deltaY: 3, deltaMode: WheelEvent.DOM_DELTA_LINE })
+
+    expect(getEvents()[0][1]).toMatchObject({ deltaY: -48, offsetY: -48 })
+  })
+
+  it('should pinch while scrolling with ctrl', () => {
+    wheel({ deltaY: -10, ctrlKey: true })
+    wheel({ deltaY: -10, ctrlKey: true })
+
+    const events = getEvents()
+    expect(events.map(([type]) => type)).toEqual(['pinchstart', 'pinchmove', 'pinchmove'])
+    expect(events[0][1]).toMatchObject({ x: 50, y: 50, centerX: 50, centerY: 50, pointerType: 'mouse' })
+    expect(events[0][1].scale).toBeCloseTo(Math.exp(0.1))
+    expect(events[2][1].scale).toBeCloseTo(Math.exp(0.2))
+    expect(events[2][1].deltaScale).toBeCloseTo(Math.exp(0.1))
+
+    vi.advanceTimersByTime(150)
+    expect(getEvents()[3][0]).toBe('pinchend')
+  })
+
+  it('should use the configured zoom speed and end delay', () => {
+    gestuelleInstance.setConfig({ wheel: { zoomSpeed: 0.02, endDelay: 300 } })
+
+    wheel({ deltaY: 10, ctrlKey: true })
+    expect(getEvents()[0][1].scale).toBeCloseTo(Math.exp(-0.2))
+
+    vi.advanceTimersByTime(299)
+    expect(listener).toHaveBeenCalledTimes(2)
+
+    vi.advanceTimersByTime(1)
+    expect(listener).toHaveBeenCalledTimes(3)
+  })
+
+  it('should end the pan when starting to pinch', () => {
+    wheel({ deltaY: 10 })
+    wheel({ deltaY: 10, ctrlKey: true })
+
+    expect(getEvents().map(([type]) => type)).toEqual(['panstart', 'panend', 'pinchstart', 'pinchmove'])
+  })
+
+  it('should ignore the scroll of a refused pan until the wheel is idle', () => {
+    const refuse = (event: Event) => event.preventDefault()
+    document.body.addEventListener('panstart', refuse)
+
+    wheel({ deltaY: 10 })
+    const event = wheel({ deltaY: 10 })
+    vi.advanceTimersByTime(150)
+    document.body.removeEventListener('panstart', refuse)
+    wheel({ deltaY: 10 })
+
+    expect(event.defaultPrevented).toBe(true)
+    expect(getEvents().map(([type]) => type)).toEqual(['panstart', 'panstart'])
+  })
+
+  it('should ignore the wheel for the disabled gestures', () => {
+    gestuelleInstance.disable('pinch')
+
+    const event = wheel({ deltaY: 10, ctrlKey: true })
+
+    expect(event.defaultPrevented).toBe(false)
+    expect(listener).not.toHaveBeenCalled()
+  })
+
+  it('should leave the scroll along the axis the pan is not allowed on to the browser', () => {
+    gestuelleInstance.setConfig({ pan: { direction: 'horizontal' } })
+
+    const vertical = wheel({ deltaX: 2, deltaY: 10 })
+    const horizontal = wheel({ deltaX: 10, deltaY: 2 })
+
+    expect(vertical.defaultPrevented).toBe(false)
+    expect(horizontal.defaultPrevented).toBe(true)
+    expect(getEvents()).toEqual([['panstart', expect.objectContaining({ deltaX: -10, deltaY: 0, offsetY: 0 })]])
+  })
+
+  it('should lock the pan on the axis of the first scroll', () => {
+    gestuelleInstance.setConfig({ pan: { lockAxis: true } })
+
+    wheel({ deltaX: 2, deltaY: 10 })
+    wheel({ deltaX: 5, deltaY: 5 })
+    const event = wheel({ deltaX: 10, deltaY: 2 })
+
+    expect(event.defaultPrevented).toBe(false)
+    expect(getEvents().map(([, detail]) => [detail.deltaX, detail.deltaY])).toEqual([
+      [0, -10],
+      [0, -5],
+    ])
+  })
+
+  it('should only pan with the allowed pointer types and modifier keys', () => {
+    gestuelleInstance.setConfig({ pan: { pointerTypes: ['touch'] } })
+    const event = wheel({ deltaY: 10 })
+
+    gestuelleInstance.setConfig({ pan: { pointerTypes: ['mouse'], modifierKeys: ['shift'] } })
+    wheel({ deltaY: 10 })
+    vi.advanceTimersByTime(150)
+    wheel({ deltaY: 10, shiftKey: true })
+
+    expect(event.defaultPrevented).toBe(false)
+    expect(getEvents().map(([type]) => type)).toEqual(['panstart'])
+  })
+
+  it('should ignore the wheel while pointers are down', () => {
+    touch('pointerdown', 1, 10, 10)
+    wheel({ deltaY: 10 })
+
+    expect(listener).not.toHaveBeenCalled()
+    touch('pointerup', 1, 10, 10)
+  })
+
+  it('should not listen to the wheel unless enabled', () => {
+    gestuelleInstance.setConfig({ wheel: false })
+
+    wheel({ deltaY: 10 })
+
+    expect(listener).not.toHaveBeenCalled()
+  })
+
+  it('should pinch with the Safari gesture events', () => {
+    const start = safariGesture('gesturestart', 1)
+    safariGesture('gesturechange', 1.5)
+    safariGesture('gesturechange', 3)
+    safariGesture('gestureend', 3)
+
+    const events = getEvents()
+    expect(start.defaultPrevented).toBe(true)
+    expect(events.map(([type]) => type)).toEqual(['pinchstart', 'pinchmove', 'pinchmove', 'pinchmove', 'pinchend'])
+    expect(events[3][1]).toMatchObject({ scale: 3, deltaScale: 2 })
+    expect(events[4][1]).toMatchObject({ scale: 3 })
+  })
+})
@@ -1,7 +1,7 @@
 import { defineConfig } from 'tsup'
 
 export default defineConfig({
-  entry: ['src/gestuelle.ts'],
+  entry: ['src/gestuelle.ts', 'src/testing.ts'],
   format: ['esm'],
   dts: true,
   clean: true,
@@ -1,13 +1,17 @@
 import { afterAll, beforeAll } from 'vitest'
+import { polyfillPointerCapture } from './src/testing'
 
-beforeAll(() => {
-  const capturedPointers = new Set<number>()
+// Specs of the DOM-free core run in the node environment
+const hasDom = typeof window !== 'undefined'
 
-  window.HTMLElement.prototype.hasPointerCapture = (pointerId: number) => capturedPointers.has(pointerId)
-  window.HTMLElement.prototype.setPointerCapture = (pointerId: number) => capturedPointers.add(pointerId)
-  window.HTMLElement.prototype.releasePointerCapture = (pointerId: number) => capturedPointers.delete(pointerId)
+beforeAll(() => {
+  if (hasDom) {
+    polyfillPointerCapture()
+  }
 })
 
 afterAll(() => {
-  document.body.innerHTML = ''
+  if (hasDom) {
+    document.body.innerHTML = ''
+  }
 })